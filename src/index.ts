@@ -10,17 +10,45 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { existsSync } from 'fs';
-import { execFile } from 'child_process';  
-import { promisify } from 'util';          
+import { createHash } from 'crypto';
+import type { Browser } from 'puppeteer';
 
 
 // Get __dirname equivalent in ES modules
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Data directory path
-const DATA_DIR = path.join(__dirname, '../data');
-const EXPORTS_DIR = path.join(__dirname, '../exports');
+// A named set of data and export folders; tools only ever see the active one
+interface Workspace {
+  name: string;
+  dataDir: string;
+  exportsDir: string;
+}
+
+// `--name value` or `--name=value` on the command line
+function readFlag(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const index = args.findIndex((arg) => arg === `--${name}` || arg.startsWith(`--${name}=`));
+  if (index === -1) return undefined;
+  return args[index].includes('=') ? args[index].slice(args[index].indexOf('=') + 1) : args[index + 1];
+}
+
+// Locations come from a command-line flag, then an environment variable, then the folders next to the build
+const DEFAULT_WORKSPACE: Workspace = {
+  name: 'default',
+  dataDir: path.resolve(readFlag('data-dir') || process.env.MES_DATA_DIR || path.join(__dirname, '../data')),
+  exportsDir: path.resolve(readFlag('exports-dir') || process.env.MES_EXPORTS_DIR || path.join(__dirname, '../exports')),
+};
+
+// Named workspaces live in <name>/data and <name>/exports under this folder
+const WORKSPACES_DIR = path.resolve(
+  readFlag('workspaces-dir') || process.env.MES_WORKSPACES_DIR || path.join(__dirname, '../workspaces')
+);
+
+let workspace: Workspace = DEFAULT_WORKSPACE;
+
+// Stage value used by decisions that apply everywhere
+const GLOBAL_STAGE = 'Global (all stages)';
 
 // Type definitions
 interface Decision {
@@ -31,6 +59,20 @@ interface Decision {
   stage: string;
   affects: string;
   notes: string;
+  applies_when?: DecisionCondition[];
+  multi_select?: boolean;
+  recommended?: DecisionRecommendation;
+}
+
+interface DecisionRecommendation {
+  outcome: string;
+  justification: string;
+}
+
+// A decision only applies when every condition's decision was answered with one of its outcomes
+interface DecisionCondition {
+  decision_id: string;
+  outcomes: string[];
 }
 
 interface Task {
@@ -52,12 +94,88 @@ interface Task {
   loop_exit_condition: string;
   logs: string;
   controls: string;
+  provenance?: TaskProvenance;
+}
+
+// Where a library task came from when it was promoted from a client's custom tasks
+interface TaskProvenance {
+  client: string;
+  custom_task_id: string;
+  promoted: string;
+}
+
+// A client-specific task layered over tasks.json (client_tasks.json)
+interface CustomTask extends Task {
+  // Base task that should follow this one; its predecessors are rewired at merge time
+  insert_before?: string;
+  created: string;
+}
+
+interface ClientTasks {
+  [clientName: string]: CustomTask[];
+}
+
+interface StageDefinition {
+  name: string;
+  display_name: string;
+}
+
+interface StageFamily {
+  name: string;
+  display_name: string;
+  stages: StageDefinition[];
+}
+
+interface StageRegistry {
+  families: StageFamily[];
+}
+
+// Named starting points for a client's answers (presets.json)
+interface Preset {
+  id: string;
+  name: string;
+  description: string;
+  // Seed every Practice decision with its recommended outcome before applying `answers`
+  include_recommended: boolean;
+  answers: { [decisionId: string]: string | string[] };
+}
+
+interface PresetLibrary {
+  presets: Preset[];
+}
+
+// Answers move draft → proposed → approved; approved answers are locked
+type DecisionStatus = 'draft' | 'proposed' | 'approved';
+
+interface DecisionApproval {
+  approver: string;
+  comment: string;
+  timestamp: string;
+}
+
+// A requested change to an approved answer; it takes effect when approved
+interface ChangeRequest {
+  selected_outcome: string | string[];
+  reason: string;
+  requested_by: string;
+  timestamp: string;
+  // Library version the requested outcome belongs to (migration requests); the answer is re-pinned on approval
+  library_version?: number;
 }
 
 interface ClientDecision {
-  selected_outcome: string;
+  // Multi-select decisions store every chosen outcome
+  selected_outcome: string | string[];
+  // Answers saved before the approval lifecycle are drafts
+  status?: DecisionStatus;
+  // Who proposed the answer for approval; they cannot approve it themselves
+  proposed_by?: string;
+  approval?: DecisionApproval;
+  change_request?: ChangeRequest;
   rationale: string;
   timestamp: string;
+  // Library version the answer was given against (answers from before versioning are v1)
+  library_version?: number;
 }
 
 interface ClientDecisions {
@@ -66,11 +184,18 @@ interface ClientDecisions {
   };
 }
 
+// An unanswered decision filled in with its recommended outcome during generation
+interface AssumedDecision {
+  decision_id: string;
+  outcome: string;
+}
+
 interface WorkflowMetadata {
   task_count: number;
   decision_count: number;
   macro_count: number;
   loop_count: number;
+  assumed_decisions?: AssumedDecision[];
 }
 
 interface SavedWorkflow {
@@ -79,1441 +204,5651 @@ interface SavedWorkflow {
   version: number;
   mermaid_code: string;
   metadata: WorkflowMetadata;
+  library_version?: number;
+  // Generated from approved decisions only
+  baseline?: boolean;
+  // Answers the diagram was built from, recommended defaults included (absent in older versions)
+  decisions?: { [decisionId: string]: ClientDecision };
+  // Resolved graph the diagram was rendered from (absent in older versions)
+  graph?: WorkflowGraph;
 }
 
-interface ClientWorkflows {
-  [clientName: string]: SavedWorkflow;
+// Everything needed to re-render a saved version without the current library or answers
+interface WorkflowGraph {
+  sections: { title: string; task_ids: string[] }[];
+  // Included tasks exactly as they were in the library
+  nodes: Task[];
+  // [predecessor, task] pairs after re-linking past excluded tasks
+  edges: [string, string][];
+  // Task ID → distant ancestor it was re-linked to because its predecessors were excluded
+  relinks: { [taskId: string]: string };
+  // Question text behind every decision shown on a diamond
+  questions: { [decisionId: string]: string };
+  // Decisions whose nodes were flagged as assumed
+  assumed: string[];
 }
 
-// Data loading functions
-async function loadDecisions(): Promise<Decision[]> {
-  const data = await fs.readFile(path.join(DATA_DIR, 'decisions.json'), 'utf-8');
-  return JSON.parse(data);
+// One change to a client's answer in decision_audit.jsonl; entries are hash-chained
+interface AuditEntry {
+  sequence: number;
+  timestamp: string;
+  client: string;
+  decision_id: string;
+  action: string;
+  author: string;
+  old_value: string | string[] | null;
+  new_value: string | string[] | null;
+  reason: string;
+  prev_hash: string;
+  hash: string;
 }
 
-async function loadTasks(): Promise<Task[]> {
-  const data = await fs.readFile(path.join(DATA_DIR, 'tasks.json'), 'utf-8');
-  return JSON.parse(data);
+type AuditChange = Pick<AuditEntry, 'client' | 'decision_id' | 'old_value' | 'new_value' | 'reason'>;
+
+// A site (plant) of a client and the product lines configured within it (client_sites.json)
+interface SiteDefinition {
+  created: string;
+  products: string[];
 }
 
-async function loadClientDecisions(): Promise<ClientDecisions> {
-  try {
-    const data = await fs.readFile(path.join(DATA_DIR, 'client_decisions.json'), 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return {};
-  }
+interface ClientSites {
+  [clientName: string]: { [site: string]: SiteDefinition };
 }
 
-async function saveClientDecisions(data: ClientDecisions): Promise<void> {
-  await fs.writeFile(
-    path.join(DATA_DIR, 'client_decisions.json'),
-    JSON.stringify(data, null, 2),
-    'utf-8'
-  );
+// A soft-deleted client, kept whole so it can be restored (client_archive.json)
+interface ArchivedClient {
+  archived: string;
+  reason: string;
+  decisions: { [decisionId: string]: ClientDecision };
+  workflows?: WorkflowHistory;
+  custom_tasks: CustomTask[];
+  sites?: { [site: string]: SiteDefinition };
+  // Site and product overrides and workflows, by scope key
+  site_decisions?: ClientDecisions;
+  site_workflows?: ClientWorkflows;
+  // Where the client's exports folder was moved, if it had one
+  exports_dir?: string;
 }
 
-async function loadClientWorkflows(): Promise<ClientWorkflows> {
-  try {
-    const data = await fs.readFile(path.join(DATA_DIR, 'client_workflows.json'), 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return {};
-  }
+interface ClientArchive {
+  [clientName: string]: ArchivedClient;
 }
 
-async function saveClientWorkflows(data: ClientWorkflows): Promise<void> {
-  await fs.writeFile(
-    path.join(DATA_DIR, 'client_workflows.json'),
-    JSON.stringify(data, null, 2),
-    'utf-8'
-  );
+// Changes between two library versions that client answers can be migrated through
+interface LibraryMigration {
+  to: number;
+  description: string;
+  // Old decision ID → new decision ID
+  decision_id_remaps?: { [oldId: string]: string };
+  // Decision ID (after remapping) → old outcome → new outcome
+  outcome_renames?: { [decisionId: string]: { [oldOutcome: string]: string } };
 }
 
-// Ensure exports directory exists
-async function ensureExportsDir(): Promise<void> {
-  if (!existsSync(EXPORTS_DIR)) {
-    await fs.mkdir(EXPORTS_DIR, { recursive: true });
-  }
+interface LibraryManifest {
+  version: number;
+  migrations: LibraryMigration[];
 }
 
-// Ensure client export directory exists
-async function ensureClientExportDir(clientName: string): Promise<string> {
-  await ensureExportsDir();
-  const clientDir = path.join(EXPORTS_DIR, clientName);
-  if (!existsSync(clientDir)) {
-    await fs.mkdir(clientDir, { recursive: true });
-  }
-  return clientDir;
+// Every generated version per stage scope ("All", "Complete-Dispensing", "Pre-Granulation", ...), oldest first
+interface WorkflowHistory {
+  [stageScope: string]: SavedWorkflow[];
 }
 
-// Helper function to check if task should be included based on decision
-function shouldIncludeTask(
-  task: Task,
-  decisions: { [key: string]: ClientDecision }
-): boolean {
-  if (!task.decision_id) {
-    return true;
-  }
+interface ClientWorkflows {
+  [clientName: string]: WorkflowHistory;
+}
 
-  // Runtime conditions are always included
-  if (task.decision_id.startsWith('C-')) {
-    return true;
-  }
+// Named data stores; the JSON backend keeps each in data/<store>.json
+type DataStore =
+  | 'decisions'
+  | 'tasks'
+  | 'library'
+  | 'stages'
+  | 'presets'
+  | 'client_decisions'
+  | 'client_workflows'
+  | 'client_tasks'
+  | 'client_archive'
+  | 'client_sites';
 
-  const clientChoice = decisions[task.decision_id]?.selected_outcome;
-  if (!clientChoice) {
-    return false;
-  }
+const LIBRARY_STORES: DataStore[] = ['decisions', 'tasks', 'library', 'stages', 'presets'];
 
-  // Handle multiple valid outcomes (comma-separated in decision_outcome)
-  if (task.decision_outcome && task.decision_outcome.includes(',')) {
-    const validOutcomes = task.decision_outcome.split(',').map((o) => o.trim());
-    return validOutcomes.includes(clientChoice);
-  }
+// Maps keyed by client or scope key ("Client/Site/Product"); SQLite keeps one row per key
+const CLIENT_STORES: DataStore[] = ['client_decisions', 'client_workflows', 'client_tasks', 'client_archive', 'client_sites'];
 
-  return clientChoice === task.decision_outcome;
-}
+const DATA_STORES: DataStore[] = [...LIBRARY_STORES, ...CLIENT_STORES];
 
-// Helper function to find closest included ancestor
-function findClosestIncludedAncestor(
-  task: Task,
-  allTasks: Task[],
-  includedTaskIds: Set<string>
-): string | null {
-  const visited = new Set<string>();
-  const queue = [...task.predecessors];
+// Persistence behind every load and save function
+interface DataRepository {
+  name: string;
+  // A missing store reads as `empty` (or throws when there is none); a corrupted one always throws
+  load<T>(store: DataStore, empty?: T): Promise<T>;
+  save(store: DataStore, data: unknown): Promise<void>;
+  // The store as JSON text, for line-level lint output
+  source(store: DataStore): Promise<string>;
+  loadAuditLog(): Promise<AuditEntry[]>;
+  appendAuditLog(entries: AuditEntry[]): Promise<void>;
+  // Corruption found in any store, reported at startup
+  check(): Promise<string[]>;
+  close(): void;
+}
 
-  while (queue.length > 0) {
-    const currentId = queue.shift()!;
+const BACKUP_COUNT = 5;
 
-    if (visited.has(currentId)) continue;
-    visited.add(currentId);
+// <data dir>/backups/<file>.<generation>
+function backupPath(filePath: string, generation: number): string {
+  return path.join(path.dirname(filePath), 'backups', `${path.basename(filePath)}.${generation}`);
+}
 
-    if (includedTaskIds.has(currentId)) {
-      return currentId;
-    }
+function describeCorruptFile(filePath: string, error: unknown): string {
+  const backup = existsSync(backupPath(filePath, 1)) ? backupPath(filePath, 1) : 'a backup';
+  return `${filePath} is corrupted (${error instanceof Error ? error.message : String(error)}). Tools that use it will not run until it is restored from ${backup}.`;
+}
 
-    const currentTask = allTasks.find((t) => t.id === currentId);
-    if (currentTask && currentTask.predecessors) {
-      queue.push(...currentTask.predecessors);
-    }
+// Missing stores start empty; a store that does not parse is reported, never treated as empty
+async function readDataFile<T>(filePath: string, empty: T): Promise<T> {
+  let data: string;
+  try {
+    data = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return empty;
+    throw error;
   }
 
-  return null;
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    throw new Error(describeCorruptFile(filePath, error));
+  }
 }
 
-// Helper function to find loop start for a loop end
-function findLoopStart(loopEndId: string): string {
-  if (loopEndId === 'DISP-L-002') return 'DISP-L-001';
-  if (loopEndId === 'DISP-SL-006') return 'DISP-SL-001';
-  if (loopEndId === 'GRAN-L-002') return 'GRAN-L-001';
-  return loopEndId;
-}
+// backups/<file>.1 is the newest previous version, .5 the oldest
+async function rotateBackups(filePath: string): Promise<void> {
+  if (!existsSync(filePath)) return;
 
-// Helper function to find first task in loop body
-function findLoopBodyStart(loopStartId: string, tasks: Task[]): string | null {
-  const firstInLoop = tasks.find((t) => t.predecessors.includes(loopStartId));
-  return firstInLoop ? firstInLoop.id : null;
+  await fs.mkdir(path.dirname(backupPath(filePath, 1)), { recursive: true });
+  for (let generation = BACKUP_COUNT - 1; generation >= 1; generation--) {
+    if (existsSync(backupPath(filePath, generation))) {
+      await fs.rename(backupPath(filePath, generation), backupPath(filePath, generation + 1));
+    }
+  }
+  await fs.copyFile(filePath, backupPath(filePath, 1));
 }
 
-// Generate improved Mermaid diagram
-function generateMermaidDiagram(
-  filteredTasks: Task[],
-  allTasks: Task[],
-  decisions: { [key: string]: ClientDecision }
-): string {
-  let mermaid = 'graph TD\n';
-
-  // Add styling
-  mermaid += '  classDef macroStyle fill:#e1f5ff,stroke:#0288d1,stroke-width:3px\n';
-  mermaid += '  classDef microStyle fill:#fff9e1,stroke:#fbc02d,stroke-width:2px\n';
-  mermaid += '  classDef loopStyle fill:#f3e5f5,stroke:#8e24aa,stroke-width:2px\n';
-  mermaid += '  classDef exceptionStyle fill:#ffebee,stroke:#d32f2f,stroke-width:2px,stroke-dasharray: 5 5\n';
-  mermaid += '  classDef decisionStyle fill:#fff3e0,stroke:#f57c00,stroke-width:2px\n\n';
+// Written to a temp file and renamed over the original, so a crash never leaves a truncated file
+async function writeDataFile(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
 
-  const includedTaskIds = new Set(filteredTasks.map((t) => t.id));
+  await rotateBackups(filePath);
+  const handle = await fs.open(tempPath, 'w');
+  try {
+    await handle.writeFile(content, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.rename(tempPath, filePath);
+}
 
-  // Group tasks by stage for subgraphs
-  const tasksByStage: { [stage: string]: Task[] } = {};
-  for (const task of filteredTasks) {
-    if (!tasksByStage[task.stage]) {
-      tasksByStage[task.stage] = [];
+async function findCorruptStores(repo: DataRepository): Promise<string[]> {
+  const problems: string[] = [];
+  for (const store of DATA_STORES) {
+    try {
+      await repo.load(store, null);
+    } catch (error) {
+      problems.push(error instanceof Error ? error.message : String(error));
     }
-    tasksByStage[task.stage].push(task);
   }
+  try {
+    await repo.loadAuditLog();
+  } catch (error) {
+    problems.push(error instanceof Error ? error.message : String(error));
+  }
+  return problems;
+}
 
-  // Track decision nodes we've created
-  const createdDecisionNodes = new Set<string>();
-
-  // Generate nodes with subgraphs
-  const stageOrder = [
-    'Pre-Dispensing',
-    'Material Allocation',
-    'Weighing & Dispensing',
-    'Labeling & Documentation',
-    'Post-Dispensing',
-    'Pre-Granulation',
-    'Material Transfer & Verification',
-    'Binder Preparation',
-    'Granulation',
-    'Post-Granulation',
-    'Closeout',
-  ];
+function createJsonRepository(dataDir: string): DataRepository {
+  const storeFile = (store: DataStore) => path.join(dataDir, `${store}.json`);
+  const auditLogFile = path.join(dataDir, 'decision_audit.jsonl');
 
-  for (const stage of stageOrder) {
-    if (!tasksByStage[stage]) continue;
+  const repo: DataRepository = {
+    name: 'JSON files',
 
-    const stageId = stage.replace(/\s+/g, '_').replace(/&/g, 'and');
-    mermaid += `\n  subgraph ${stageId}["${stage}"]\n`;
+    async load<T>(store: DataStore, empty?: T): Promise<T> {
+      const data = await readDataFile<T | undefined>(storeFile(store), empty);
+      if (data === undefined) {
+        throw new Error(`${storeFile(store)} not found`);
+      }
+      return data;
+    },
 
-    for (const task of tasksByStage[stage]) {
-      const nodeId = task.id.replace(/-/g, '_');
-      const label = `${task.id}:<br/>${task.name}`;
+    async save(store: DataStore, data: unknown): Promise<void> {
+      const content = LIBRARY_STORES.includes(store) ? formatLibraryJson(data) : JSON.stringify(data, null, 2);
+      await writeDataFile(storeFile(store), content);
+    },
 
-      let nodeShape = '';
-      let styleClass = '';
+    async source(store: DataStore): Promise<string> {
+      return fs.readFile(storeFile(store), 'utf-8');
+    },
 
-      if (task.type === 'Macro') {
-        nodeShape = `${nodeId}[["${label}"]]`;
-        styleClass = 'macroStyle';
-      } else if (task.type === 'Loop-Start' || task.type === 'Loop-End') {
-        nodeShape = `${nodeId}(("${label}"))`;
-        styleClass = 'loopStyle';
-      } else {
-        nodeShape = `${nodeId}["${label}"]`;
-        styleClass = task.edge_type === 'exception' ? 'exceptionStyle' : 'microStyle';
+    // The audit log is append-only JSON Lines; a line that does not parse is reported, never skipped
+    async loadAuditLog(): Promise<AuditEntry[]> {
+      let data: string;
+      try {
+        data = await fs.readFile(auditLogFile, 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
       }
 
-      mermaid += `    ${nodeShape}\n`;
-      if (styleClass) {
-        mermaid += `    class ${nodeId} ${styleClass}\n`;
-      }
-    }
+      return data
+        .split('\n')
+        .filter((line) => line.trim() !== '')
+        .map((line, index) => {
+          try {
+            return JSON.parse(line) as AuditEntry;
+          } catch {
+            throw new Error(`decision_audit.jsonl line ${index + 1} is not valid JSON`);
+          }
+        });
+    },
 
-    mermaid += `  end\n`;
-  }
+    async appendAuditLog(entries: AuditEntry[]): Promise<void> {
+      await fs.appendFile(auditLogFile, entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n', 'utf-8');
+    },
 
-  mermaid += '\n';
+    check(): Promise<string[]> {
+      return findCorruptStores(repo);
+    },
 
-  // Check if Q-SEC-01 is set to "Both (material-dependent)"
-  const secDecision = decisions['Q-SEC-01'];
-  const isBothPaths = secDecision?.selected_outcome === 'Both (material-dependent)';
+    close(): void {},
+  };
+  return repo;
+}
 
-  // Special handling for DISP-017 routing when "Both" is selected
-  if (isBothPaths && includedTaskIds.has('DISP-017')) {
-    const disp017NodeId = 'DISP_017';
-    const decisionNodeId = 'DEC_C_SEC_01';
+const SQLITE_FILE_NAME = 'mes.sqlite';
+
+// Library stores are one document each; client stores are split into one row per key, so a
+// save only rewrites the clients that changed. The audit log is one row per entry.
+async function openSqliteRepository(file: string): Promise<DataRepository> {
+  const { default: Database } = await import('better-sqlite3');
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS documents (
+      store TEXT NOT NULL,
+      key TEXT NOT NULL,
+      value TEXT NOT NULL,
+      PRIMARY KEY (store, key)
+    );
+    CREATE TABLE IF NOT EXISTS audit_log (
+      sequence INTEGER PRIMARY KEY,
+      entry TEXT NOT NULL
+    );
+  `);
+
+  const selectRows = db.prepare<[string], { key: string; value: string }>(
+    'SELECT key, value FROM documents WHERE store = ? ORDER BY rowid'
+  );
+  const upsertRow = db.prepare<[string, string, string]>(
+    'INSERT INTO documents (store, key, value) VALUES (?, ?, ?) ON CONFLICT (store, key) DO UPDATE SET value = excluded.value'
+  );
+  const deleteRow = db.prepare<[string, string]>('DELETE FROM documents WHERE store = ? AND key = ?');
+  const selectAudit = db.prepare<[], { sequence: number; entry: string }>('SELECT sequence, entry FROM audit_log ORDER BY sequence');
+  const insertAudit = db.prepare<[number, string]>('INSERT INTO audit_log (sequence, entry) VALUES (?, ?)');
+
+  const parseRow = (store: DataStore, row: { key: string; value: string }) => {
+    try {
+      return JSON.parse(row.value);
+    } catch (error) {
+      throw new Error(
+        `${path.basename(file)} store "${store}"${row.key ? ` key "${row.key}"` : ''} is corrupted (${error instanceof Error ? error.message : String(error)})`
+      );
+    }
+  };
 
-    // Add C-SEC-01 decision diamond
-    mermaid += `  ${decisionNodeId}{Is container sealed?}\n`;
-    mermaid += `  class ${decisionNodeId} decisionStyle\n`;
-    mermaid += `  ${disp017NodeId} --> ${decisionNodeId}\n`;
+  const saveRows = db.transaction((store: DataStore, data: unknown) => {
+    const existing = new Map(selectRows.all(store).map((row) => [row.key, row.value]));
+    const rows = CLIENT_STORES.includes(store)
+      ? Object.entries(data as { [key: string]: unknown }).map(([key, value]) => [key, JSON.stringify(value)])
+      : [['', JSON.stringify(data)]];
 
-    // Route to sealed path
-    if (includedTaskIds.has('DISP-SL-001')) {
-      mermaid += `  ${decisionNodeId} -->|Yes → Sealed| DISP_SL_001\n`;
+    for (const [key, value] of rows) {
+      if (existing.get(key) !== value) {
+        upsertRow.run(store, key, value);
+      }
+      existing.delete(key);
     }
-
-    // Route to weighing path
-    if (includedTaskIds.has('DISP-L-001')) {
-      mermaid += `  ${decisionNodeId} -->|No → Weighing| DISP_L_001\n`;
+    for (const key of existing.keys()) {
+      deleteRow.run(store, key);
     }
+  });
 
-    createdDecisionNodes.add(decisionNodeId);
-  }
+  const repo: DataRepository = {
+    name: `SQLite (${path.basename(file)})`,
 
-  // Generate edges with smart linking
-  for (const task of filteredTasks) {
-    const nodeId = task.id.replace(/-/g, '_');
+    async load<T>(store: DataStore, empty?: T): Promise<T> {
+      const rows = selectRows.all(store);
+      // A client store saved with no clients has no rows
+      if (rows.length === 0 && CLIENT_STORES.includes(store) && empty === undefined) {
+        return {} as T;
+      }
+      if (rows.length === 0) {
+        if (empty === undefined) {
+          throw new Error(`Store "${store}" not found in ${path.basename(file)}`);
+        }
+        return empty;
+      }
+      if (!CLIENT_STORES.includes(store)) {
+        return parseRow(store, rows[0]);
+      }
+      return Object.fromEntries(rows.map((row) => [row.key, parseRow(store, row)])) as T;
+    },
 
-    // Skip DISP-L-001 and DISP-SL-001 predecessors if "Both" path - already handled above
-    if (isBothPaths && (task.id === 'DISP-L-001' || task.id === 'DISP-SL-001')) {
-      continue;
-    }
+    async save(store: DataStore, data: unknown): Promise<void> {
+      saveRows(store, data);
+    },
 
-    if (task.predecessors && task.predecessors.length > 0) {
-      // Filter predecessors to only those in the workflow
-      let validPredecessors = task.predecessors.filter((pred) => includedTaskIds.has(pred));
+    async source(store: DataStore): Promise<string> {
+      return formatLibraryJson(await repo.load(store));
+    },
 
-      // If NO valid predecessors, find closest ancestor
-      if (validPredecessors.length === 0) {
-        const closestAncestor = findClosestIncludedAncestor(task, allTasks, includedTaskIds);
-        if (closestAncestor) {
-          validPredecessors = [closestAncestor];
+    async loadAuditLog(): Promise<AuditEntry[]> {
+      return selectAudit.all().map((row) => {
+        try {
+          return JSON.parse(row.entry) as AuditEntry;
+        } catch {
+          throw new Error(`audit_log entry ${row.sequence} is not valid JSON`);
         }
-      }
+      });
+    },
 
-      // Add edges from valid predecessors
-      for (const pred of validPredecessors) {
-        const predId = pred.replace(/-/g, '_');
+    async appendAuditLog(entries: AuditEntry[]): Promise<void> {
+      db.transaction(() => {
+        for (const entry of entries) {
+          insertAudit.run(entry.sequence, JSON.stringify(entry));
+        }
+      })();
+    },
 
-        // Check if this edge needs a decision node
-        if (task.guard_condition && task.decision_id && task.decision_id.startsWith('C-')) {
-          // Runtime condition - create decision diamond
-          const decisionNodeId = `DEC_${task.id.replace(/-/g, '_')}`;
+    async check(): Promise<string[]> {
+      const integrity = db.pragma('integrity_check', { simple: true });
+      return [
+        ...(integrity === 'ok' ? [] : [`${path.basename(file)} failed its integrity check: ${integrity}`]),
+        ...(await findCorruptStores(repo)),
+      ];
+    },
 
-          if (!createdDecisionNodes.has(decisionNodeId)) {
-            // Extract simple condition label
-            let conditionLabel = task.guard_condition;
-            if (conditionLabel.length > 40) {
-              conditionLabel = task.decision_id; // Use decision ID if too long
-            }
+    close(): void {
+      db.close();
+    },
+  };
+  return repo;
+}
 
-            mermaid += `  ${decisionNodeId}{${conditionLabel}}\n`;
-            mermaid += `  class ${decisionNodeId} decisionStyle\n`;
-            mermaid += `  ${predId} --> ${decisionNodeId}\n`;
+// JSON files unless --storage or MES_STORAGE says sqlite; kept when switching workspace
+const STORAGE_BACKEND = readFlag('storage') || process.env.MES_STORAGE || 'json';
 
-            createdDecisionNodes.add(decisionNodeId);
-          }
+let repository: DataRepository = createJsonRepository(DEFAULT_WORKSPACE.dataDir);
 
-          // Determine edge label based on outcome
-          const edgeLabel = task.decision_outcome || 'Yes';
-          const edgeStyle = task.edge_type === 'exception' ? '-.->' : '-->';
-          mermaid += `  ${decisionNodeId} ${edgeStyle}|${edgeLabel}| ${nodeId}\n`;
-        } else {
-          // Regular edge
-          const edgeStyle = task.edge_type === 'exception' ? '-.->|exception|' : '-->';
-          mermaid += `  ${predId} ${edgeStyle} ${nodeId}\n`;
-        }
+async function openRepository(backend: string, dataDir: string): Promise<DataRepository> {
+  if (backend === 'json') return createJsonRepository(dataDir);
+  if (backend === 'sqlite') return openSqliteRepository(path.join(dataDir, SQLITE_FILE_NAME));
+  throw new Error(`Unknown storage backend "${backend}" - use "json" or "sqlite"`);
+}
+
+const WORKSPACE_NAME_PATTERN = /^[A-Za-z0-9][\w.-]*$/;
+
+function resolveWorkspace(name: string): Workspace | string {
+  if (name === DEFAULT_WORKSPACE.name) return DEFAULT_WORKSPACE;
+  if (!WORKSPACE_NAME_PATTERN.test(name)) {
+    return `Invalid workspace name "${name}" - use letters, digits, ".", "-" and "_"`;
+  }
+  const root = path.join(WORKSPACES_DIR, name);
+  return { name, dataDir: path.join(root, 'data'), exportsDir: path.join(root, 'exports') };
+}
+
+async function listWorkspaces(): Promise<Workspace[]> {
+  const entries = existsSync(WORKSPACES_DIR) ? await fs.readdir(WORKSPACES_DIR, { withFileTypes: true }) : [];
+  const named = entries
+    .filter((entry) => entry.isDirectory() && existsSync(path.join(WORKSPACES_DIR, entry.name, 'data')))
+    .map((entry) => resolveWorkspace(entry.name))
+    .filter((w): w is Workspace => typeof w !== 'string')
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return [DEFAULT_WORKSPACE, ...named];
+}
+
+// A new workspace starts with the default workspace's task and decision library and no clients
+async function createWorkspace(target: Workspace): Promise<void> {
+  await fs.mkdir(target.dataDir, { recursive: true });
+  await fs.mkdir(target.exportsDir, { recursive: true });
+
+  const source = await openRepository(STORAGE_BACKEND, DEFAULT_WORKSPACE.dataDir);
+  const destination = await openRepository(STORAGE_BACKEND, target.dataDir);
+  try {
+    for (const store of LIBRARY_STORES) {
+      await destination.save(store, await source.load(store));
+    }
+  } finally {
+    source.close();
+    destination.close();
+  }
+}
+
+async function activateWorkspace(target: Workspace): Promise<void> {
+  const next = await openRepository(STORAGE_BACKEND, target.dataDir);
+  repository.close();
+  repository = next;
+  workspace = target;
+}
+
+function describeStoreSize(store: DataStore, data: unknown): string {
+  if (Array.isArray(data)) return `${data.length} entries`;
+  if (CLIENT_STORES.includes(store)) return `${Object.keys(data as object).length} keys`;
+  return '1 document';
+}
+
+// One-shot copy of the JSON data files into an empty SQLite database, verified store by store
+async function migrateJsonToSqlite(dataDir: string): Promise<string> {
+  const jsonRepository = createJsonRepository(dataDir);
+  const sqliteFile = path.join(dataDir, SQLITE_FILE_NAME);
+  const problems = await jsonRepository.check();
+  if (problems.length > 0) {
+    throw new Error(`Fix the JSON data before migrating:\n${problems.join('\n')}`);
+  }
+
+  const sqlite = await openSqliteRepository(sqliteFile);
+  try {
+    const existing = [];
+    for (const store of DATA_STORES) {
+      if ((await sqlite.load(store, null)) !== null) existing.push(store);
+    }
+    if ((await sqlite.loadAuditLog()).length > 0) existing.push('audit log');
+    if (existing.length > 0) {
+      throw new Error(`${sqliteFile} already holds data (${existing.join(', ')}). Move it aside to migrate again.`);
+    }
+  } catch (error) {
+    sqlite.close();
+    throw error;
+  }
+
+  const report: string[] = [];
+  let migrated = false;
+  try {
+    for (const store of DATA_STORES) {
+      const data = await jsonRepository.load(store, null);
+      if (data === null) {
+        report.push(`- ${store}: no JSON file, skipped`);
+        continue;
       }
+      await sqlite.save(store, data);
+      if (JSON.stringify(await sqlite.load(store)) !== JSON.stringify(data)) {
+        throw new Error(`"${store}" did not read back identically`);
+      }
+      report.push(`- ${store}: ${describeStoreSize(store, data)}`);
+    }
+
+    const auditLog = await jsonRepository.loadAuditLog();
+    await sqlite.appendAuditLog(auditLog);
+    report.push(`- audit log: ${auditLog.length} entries`);
+    migrated = true;
+  } catch (error) {
+    throw new Error(
+      `Migration stopped: ${error instanceof Error ? error.message : String(error)}. The partial ${path.basename(sqliteFile)} was removed and the JSON files were not changed, so the migration can be retried.`
+    );
+  } finally {
+    sqlite.close();
+    // The database held nothing before, so a partial copy is removed along with its WAL files
+    if (!migrated) {
+      await Promise.all(['', '-wal', '-shm'].map((suffix) => fs.rm(`${sqliteFile}${suffix}`, { force: true })));
     }
+  }
+
+  return `Copied JSON data from ${dataDir} into ${sqliteFile}:\n${report.join('\n')}\n\nStart the server with MES_STORAGE=sqlite to use it. The JSON files were left unchanged.`;
+}
+
+const LOCK_TIMEOUT_MS = 30000;
+const LOCK_RETRY_MS = 50;
+// A lock file without a readable PID is abandoned once it is this old
+const LOCK_STALE_MS = 5000;
+
+// Tool calls queue here first, so only one per process waits on the lock file
+let processLock: Promise<void> = Promise.resolve();
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+interface LockState {
+  // Identifies this lock file, so a newer lock at the same path is never mistaken for it
+  ino: number;
+  holder: number;
+  stale: boolean;
+}
+
+// The current lock file, or null when there is none (or it changed while being read)
+async function inspectLock(lockFile: string): Promise<LockState | null> {
+  const before = await fs.stat(lockFile).catch(() => null);
+  const holder = parseInt(await fs.readFile(lockFile, 'utf-8').catch(() => ''), 10);
+  const after = await fs.stat(lockFile).catch(() => null);
+  if (!before || !after || before.ino !== after.ino) {
+    return null;
+  }
+  // An empty or unparsable lock is left by a crash mid-creation; its age decides
+  const stale = holder > 0 ? !isProcessAlive(holder) : Date.now() - after.mtimeMs > LOCK_STALE_MS;
+  return { ino: after.ino, holder, stale };
+}
 
-    // Handle loop back edges
-    if (task.type === 'Loop-End' && task.loop_exit_condition) {
-      const loopStartId = findLoopStart(task.id);
-      const loopBodyStartId = findLoopBodyStart(loopStartId, filteredTasks);
+// Remove the lock file only if it is still the given one. It is first moved aside under a unique
+// name, so two processes can never both remove it; a different lock moved by mistake is put back.
+async function removeLock(lockFile: string, ino: number): Promise<void> {
+  const aside = `${lockFile}.${process.pid}.${Date.now()}.aside`;
+  try {
+    await fs.rename(lockFile, aside);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+  if ((await fs.stat(aside)).ino !== ino) {
+    await fs.link(aside, lockFile).catch(() => undefined);
+  }
+  await fs.rm(aside, { force: true });
+}
 
-      if (loopBodyStartId) {
-        const bodyStartNodeId = loopBodyStartId.replace(/-/g, '_');
-        const loopCondition = task.loop_exit_condition.replace(/RunningTotal >= Target/gi, 'Target not reached');
+// One tool call at a time reads and writes the data stores, across every server process
+// sharing the data folder. The lock file holds the owner's PID; a lock left by a dead process is taken over.
+async function acquireDataLock(): Promise<() => Promise<void>> {
+  let releaseProcess!: () => void;
+  const previous = processLock;
+  processLock = new Promise((resolve) => (releaseProcess = resolve));
+  await previous;
+
+  // Released in the folder it was taken in, even if the call switches workspace
+  const lockFile = path.join(workspace.dataDir, '.lock');
+  // The PID is written before the lock appears: linking the claim creates the lock atomically
+  const claimFile = `${lockFile}.${process.pid}.claim`;
+
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  let ino: number;
+  try {
+    await fs.writeFile(claimFile, String(process.pid), 'utf-8');
+    for (;;) {
+      try {
+        await fs.link(claimFile, lockFile);
+        ino = (await fs.stat(claimFile)).ino;
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
 
-        mermaid += `  ${nodeId} -.->|${loopCondition}| ${bodyStartNodeId}\n`;
+      const lock = await inspectLock(lockFile);
+      if (lock?.stale) {
+        await removeLock(lockFile, lock.ino);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(
+          `Data files are locked by process ${lock?.holder || 'unknown'}. Try again shortly, or delete ${lockFile} if that process is no longer running.`
+        );
       }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
     }
+  } catch (error) {
+    releaseProcess();
+    throw error;
+  } finally {
+    await fs.rm(claimFile, { force: true });
   }
 
-  return mermaid;
+  return async () => {
+    try {
+      await removeLock(lockFile, ino);
+    } finally {
+      releaseProcess();
+    }
+  };
 }
 
-// Generate beautiful Mermaid diagram with enhanced UI
-// Generate beautiful Mermaid diagram with enhanced UI
-function generateBeautifulMermaidDiagram(
-  filteredTasks: Task[],
-  allTasks: Task[],
-  decisions: { [key: string]: ClientDecision },
-  clientName: string
-): string {
-  const secDecision = decisions['Q-SEC-01'];
-  const isBothPaths = secDecision?.selected_outcome === 'Both (material-dependent)';
-  const isWeighingOnly = secDecision?.selected_outcome === 'Weighing only';
-  const isSealedOnly = secDecision?.selected_outcome === 'Sealed only';
-  
-  // Determine if using SAP or MES allocation
-  const erpDecision = decisions['Q-ERP-01'];
-  const usesSAP = erpDecision?.selected_outcome === 'SAP';
-
-  let mermaid = `%%{init: {'theme':'base', 'themeVariables': { 'primaryColor':'#e1f5ff','primaryTextColor':'#01579b','primaryBorderColor':'#0288d1','lineColor':'#546e7a','secondaryColor':'#fff9e1','tertiaryColor':'#f3e5f5'}}}%%\n`;
-  mermaid += `graph TB\n`;
-  mermaid += `  classDef macroStyle fill:#0288d1,stroke:#01579b,stroke-width:4px,color:#ffffff,font-weight:bold,font-size:16px\n`;
-  mermaid += `  classDef microStyle fill:#fff9e1,stroke:#f9a825,stroke-width:2px,color:#3e2723,font-size:14px\n`;
-  mermaid += `  classDef loopStyle fill:#8e24aa,stroke:#4a148c,stroke-width:3px,color:#ffffff,font-weight:bold,font-size:14px\n`;
-  mermaid += `  classDef exceptionStyle fill:#ffcdd2,stroke:#c62828,stroke-width:3px,stroke-dasharray:8 4,color:#b71c1c,font-weight:bold\n`;
-  mermaid += `  classDef decisionStyle fill:#fff3e0,stroke:#e65100,stroke-width:3px,color:#e65100,font-weight:bold\n`;
-  mermaid += `  classDef convergeStyle fill:#c8e6c9,stroke:#2e7d32,stroke-width:3px,color:#1b5e20,font-weight:bold\n`;
-  mermaid += `  classDef dualPathStyle fill:#e1bee7,stroke:#6a1b9a,stroke-width:3px,color:#4a148c,font-weight:bold\n\n`;
-
-  // ========================================
-  // START NODE
-  // ========================================
-  mermaid += `  START([🏁 START DISPENSING])\n`;
-  mermaid += `  style START fill:#4caf50,stroke:#2e7d32,stroke-width:4px,color:#ffffff,font-weight:bold,font-size:18px\n\n`;
-
-  // ========================================
-  // STAGE 1: PRE-DISPENSING
-  // ========================================
-  mermaid += `  M1["📋 PRE-DISPENSING &<br/>ROOM READINESS"]\n`;
-  mermaid += `  class M1 macroStyle\n`;
-  mermaid += `  START --> M1\n\n`;
-
-  mermaid += `  T001["👤 Training & Role Gate"]\n`;
-  mermaid += `  T002["📝 Line Clearance Request"]\n`;
-  mermaid += `  T003["🧹 Verify Batch Clearance<br/>& Remove Residuals"]\n`;
-  mermaid += `  class T001,T002,T003 microStyle\n\n`;
-
-  mermaid += `  M1 --> T001\n`;
-  mermaid += `  T001 --> T002\n`;
-  mermaid += `  T002 --> T003\n\n`;
-
-  // Cleaning Decision
-  mermaid += `  D004{"⏰ Cleaning<br/>Hold-Time Valid?"}\n`;
-  mermaid += `  T004["✓ Hold-Time Check"]\n`;
-  mermaid += `  T005["⚠️ RE-CLEAN ROOM<br/>& Record"]\n`;
-  mermaid += `  class D004 decisionStyle\n`;
-  mermaid += `  class T004 microStyle\n`;
-  mermaid += `  class T005 exceptionStyle\n\n`;
-
-  mermaid += `  T003 --> D004\n`;
-  mermaid += `  D004 -->|YES| T004\n`;
-  mermaid += `  D004 -.->|NO - Expired| T005\n`;
-  mermaid += `  T005 -.-> T004\n\n`;
-
-  // Parallel Checks
-  mermaid += `  T006["🌡️ Capture Environment<br/>RT/RH/DP"]\n`;
-  mermaid += `  T008["⚖️ Balance Calibration<br/>Verification"]\n`;
-  mermaid += `  class T006,T008 microStyle\n\n`;
-
-  mermaid += `  T003 --> T006\n`;
-  mermaid += `  T003 --> T008\n\n`;
-
-  // QA Gate
-  mermaid += `  T009["✅ QA Room Readiness<br/>Inspection & E-Sign"]\n`;
-  mermaid += `  class T009 convergeStyle\n\n`;
-
-  mermaid += `  T004 --> T009\n`;
-  mermaid += `  T006 --> T009\n`;
-  mermaid += `  T008 --> T009\n\n`;
-
-  // ========================================
-  // STAGE 2: MATERIAL ALLOCATION
-  // ========================================
-  mermaid += `  M2["📦 MATERIAL IDENTIFICATION<br/>ALLOCATION & STAGING"]\n`;
-  mermaid += `  class M2 macroStyle\n`;
-  mermaid += `  T009 ==> M2\n\n`;
-
-  mermaid += `  T010["📄 Retrieve Production<br/>Order & BOM"]\n`;
-  mermaid += `  T011["🔄 Sync Material Master<br/>Data"]\n`;
-  mermaid += `  T012["📊 Fetch Available<br/>Inventory Lots"]\n`;
-  mermaid += `  T013["🔍 Filter by Status<br/>& Retest Validity"]\n`;
-  mermaid += `  class T010,T011,T012,T013 microStyle\n\n`;
-
-  mermaid += `  M2 --> T010\n`;
-  mermaid += `  T010 --> T011\n`;
-  mermaid += `  T011 --> T012\n`;
-  mermaid += `  T012 --> T013\n\n`;
-
-  // SAP or MES Allocation
-  if (usesSAP) {
-    mermaid += `  T014["🎯 SAP/ERP BATCH<br/>DETERMINATION"]\n`;
-    mermaid += `  style T014 fill:#bbdefb,stroke:#1565c0,stroke-width:3px,color:#0d47a1,font-weight:bold\n`;
-    mermaid += `  T013 --> T014\n\n`;
-    mermaid += `  T016["📍 Reserve & Stage<br/>to Dispensing Area"]\n`;
-    mermaid += `  T017["🔎 Identify Container<br/>& Verify Allocation"]\n`;
-    mermaid += `  class T016,T017 microStyle\n`;
-    mermaid += `  T014 --> T016\n`;
-  } else {
-    mermaid += `  T015["🎯 MES LOT ALLOCATION<br/>with FIFO/FEFO Policy"]\n`;
-    mermaid += `  style T015 fill:#e3f2fd,stroke:#1565c0,stroke-width:3px,color:#0d47a1,font-weight:bold\n`;
-    mermaid += `  T013 --> T015\n\n`;
-    mermaid += `  T016["📍 Reserve & Stage<br/>to Dispensing Area"]\n`;
-    mermaid += `  T017["🔎 Identify Container<br/>& Verify Allocation"]\n`;
-    mermaid += `  class T016,T017 microStyle\n`;
-    mermaid += `  T015 --> T016\n`;
-  }
-
-  mermaid += `  T016 --> T017\n\n`;
-
-  // ========================================
-  // STAGE 3: WEIGHING & DISPENSING
-  // ========================================
-  mermaid += `  M3["⚖️ WEIGHING &<br/>DISPENSING"]\n`;
-  mermaid += `  class M3 macroStyle\n`;
-  mermaid += `  T017 ==> M3\n\n`;
-
-  if (isBothPaths) {
-    // Dual-path routing
-    mermaid += `  ROUTE{"🔀 CONTAINER<br/>SEALED?<br/>(Material-Dependent)"}\n`;
-    mermaid += `  class ROUTE dualPathStyle\n`;
-    mermaid += `  M3 --> ROUTE\n\n`;
-
-    // Weighing Path
-    mermaid += `  LOOP_W_START(("🔄 START<br/>WEIGHING<br/>LOOP"))\n`;
-    mermaid += `  class LOOP_W_START loopStyle\n`;
-    mermaid += `  ROUTE -->|NO - Weigh| LOOP_W_START\n\n`;
-
-    mermaid += `  T020["📦 Select Next<br/>Container"]\n`;
-    mermaid += `  class T020 microStyle\n`;
-    mermaid += `  LOOP_W_START --> T020\n\n`;
-
-    mermaid += `  D021{"🔍 Container<br/>Damaged?"}\n`;
-    mermaid += `  T021["⛔ QUARANTINE<br/>& Replace"]\n`;
-    mermaid += `  class D021 decisionStyle\n`;
-    mermaid += `  class T021 exceptionStyle\n`;
-    mermaid += `  T020 --> D021\n`;
-    mermaid += `  D021 -.->|YES| T021\n`;
-    mermaid += `  D021 -->|NO| T022\n\n`;
-
-    mermaid += `  T022["⚖️ Balance Suitability<br/>Check"]\n`;
-    mermaid += `  T023["📝 Select Weighing<br/>Method"]\n`;
-    mermaid += `  T024["⚖️ Tare Container"]\n`;
-    mermaid += `  T025["🧪 Pull Assay & CoA<br/>Compute Adjusted Qty"]\n`;
-    mermaid += `  T026["🔢 Apply UoM Conversion<br/>& Rounding"]\n`;
-    mermaid += `  class T022,T023,T024,T025,T026 microStyle\n\n`;
-
-    mermaid += `  T022 --> T023\n`;
-    mermaid += `  T023 --> T024\n`;
-    mermaid += `  T024 --> T025\n`;
-    mermaid += `  T025 --> T026\n\n`;
-
-    mermaid += `  T027["⚖️ WEIGH MATERIAL"]\n`;
-    mermaid += `  style T027 fill:#fff59d,stroke:#f57f17,stroke-width:3px,color:#f57f17,font-weight:bold,font-size:15px\n`;
-    mermaid += `  T026 --> T027\n\n`;
-
-    mermaid += `  D027S{"💧 Spill<br/>Detected?"}\n`;
-    mermaid += `  T027S["⚠️ SPILL WORKFLOW<br/>Cleanup & Log"]\n`;
-    mermaid += `  class D027S decisionStyle\n`;
-    mermaid += `  class T027S exceptionStyle\n`;
-    mermaid += `  T027 --> D027S\n`;
-    mermaid += `  D027S -.->|YES| T027S\n`;
-    mermaid += `  D027S -->|NO| T029\n\n`;
-
-    mermaid += `  D029{"📏 Within<br/>Tolerance?"}\n`;
-    mermaid += `  T029["⚠️ DEVIATION<br/>Handle per Policy"]\n`;
-    mermaid += `  class D029 decisionStyle\n`;
-    mermaid += `  class T029 exceptionStyle\n`;
-    mermaid += `  D029 -.->|NO| T029\n`;
-    mermaid += `  D029 -->|YES| T030W\n\n`;
-
-    mermaid += `  T030W["🏷️ Print & Affix<br/>Container Label"]\n`;
-    mermaid += `  T030VW["✓ Label Scanback<br/>Verification"]\n`;
-    mermaid += `  class T030W,T030VW microStyle\n`;
-    mermaid += `  T030W --> T030VW\n\n`;
-
-    mermaid += `  T031W["➕ Update Running Total"]\n`;
-    mermaid += `  class T031W microStyle\n`;
-    mermaid += `  T030VW --> T031W\n\n`;
-
-    mermaid += `  D031W{"🎯 Target<br/>Reached?"}\n`;
-    mermaid += `  class D031W decisionStyle\n`;
-    mermaid += `  T031W --> D031W\n\n`;
-
-    mermaid += `  LOOP_W_END(("🔄 END<br/>WEIGHING<br/>LOOP"))\n`;
-    mermaid += `  class LOOP_W_END loopStyle\n`;
-    mermaid += `  D031W -.->|NO| T020\n`;
-    mermaid += `  D031W -->|YES| LOOP_W_END\n\n`;
-
-    // Sealed Path
-    mermaid += `  LOOP_S_START(("🔄 START<br/>SEALED<br/>LOOP"))\n`;
-    mermaid += `  class LOOP_S_START loopStyle\n`;
-    mermaid += `  ROUTE -->|YES - Sealed| LOOP_S_START\n\n`;
-
-    mermaid += `  T_S_002["📦 Scan Sealed Container<br/>Capture Declared Mass"]\n`;
-    mermaid += `  T_S_003["🔍 Verify Integrity<br/>& Eligibility"]\n`;
-    mermaid += `  T_S_004["🏷️ Print Dispensed<br/>Container Label"]\n`;
-    mermaid += `  T_S_005["➕ Update Running Total"]\n`;
-    mermaid += `  class T_S_002,T_S_003,T_S_004,T_S_005 microStyle\n\n`;
-
-    mermaid += `  LOOP_S_START --> T_S_002\n`;
-    mermaid += `  T_S_002 --> T_S_003\n`;
-    mermaid += `  T_S_003 --> T_S_004\n`;
-    mermaid += `  T_S_004 --> T_S_005\n\n`;
-
-    mermaid += `  D_S_005{"🎯 Target<br/>Reached?"}\n`;
-    mermaid += `  class D_S_005 decisionStyle\n`;
-    mermaid += `  T_S_005 --> D_S_005\n\n`;
-
-    mermaid += `  LOOP_S_END(("🔄 END<br/>SEALED<br/>LOOP"))\n`;
-    mermaid += `  class LOOP_S_END loopStyle\n`;
-    mermaid += `  D_S_005 -.->|NO| T_S_002\n`;
-    mermaid += `  D_S_005 -->|YES| LOOP_S_END\n\n`;
-
-    // Convergence
-    mermaid += `  CONVERGE["🔗 PATHS CONVERGE"]\n`;
-    mermaid += `  class CONVERGE convergeStyle\n`;
-    mermaid += `  LOOP_W_END --> CONVERGE\n`;
-    mermaid += `  LOOP_S_END --> CONVERGE\n\n`;
-  } else if (isWeighingOnly) {
-    // Weighing only path (TechPharma style)
-    mermaid += `  LOOP_W_START(("🔄 START<br/>WEIGHING<br/>LOOP"))\n`;
-    mermaid += `  class LOOP_W_START loopStyle\n`;
-    mermaid += `  M3 --> LOOP_W_START\n\n`;
-
-    mermaid += `  T020["📦 Select Next<br/>Container"]\n`;
-    mermaid += `  class T020 microStyle\n`;
-    mermaid += `  LOOP_W_START --> T020\n\n`;
-
-    mermaid += `  D021{"🔍 Container<br/>Damaged?"}\n`;
-    mermaid += `  T021["⛔ QUARANTINE<br/>& Replace"]\n`;
-    mermaid += `  class D021 decisionStyle\n`;
-    mermaid += `  class T021 exceptionStyle\n`;
-    mermaid += `  T020 --> D021\n`;
-    mermaid += `  D021 -.->|YES| T021\n`;
-    mermaid += `  D021 -->|NO| T022\n\n`;
-
-    mermaid += `  T022["⚖️ Balance Suitability<br/>Check"]\n`;
-    mermaid += `  T023["📝 Select Weighing<br/>Method"]\n`;
-    mermaid += `  T024["⚖️ Tare Container"]\n`;
-    mermaid += `  T025["🧪 Pull Assay & CoA<br/>Compute Adjusted Qty"]\n`;
-    mermaid += `  T026["🔢 Apply UoM Conversion<br/>& Rounding"]\n`;
-    mermaid += `  class T022,T023,T024,T025,T026 microStyle\n\n`;
-
-    mermaid += `  T022 --> T023\n`;
-    mermaid += `  T023 --> T024\n`;
-    mermaid += `  T024 --> T025\n`;
-    mermaid += `  T025 --> T026\n\n`;
-
-    mermaid += `  T027["⚖️ WEIGH MATERIAL"]\n`;
-    mermaid += `  style T027 fill:#fff59d,stroke:#f57f17,stroke-width:3px,color:#f57f17,font-weight:bold,font-size:15px\n`;
-    mermaid += `  T026 --> T027\n\n`;
-
-    mermaid += `  D027S{"💧 Spill<br/>Detected?"}\n`;
-    mermaid += `  T027S["⚠️ SPILL WORKFLOW<br/>Cleanup & Log"]\n`;
-    mermaid += `  class D027S decisionStyle\n`;
-    mermaid += `  class T027S exceptionStyle\n`;
-    mermaid += `  T027 --> D027S\n`;
-    mermaid += `  D027S -.->|YES| T027S\n`;
-    mermaid += `  D027S -->|NO| T029\n\n`;
-
-    mermaid += `  D029{"📏 Within<br/>Tolerance?"}\n`;
-    mermaid += `  T029["⚠️ DEVIATION<br/>Handle per Policy"]\n`;
-    mermaid += `  class D029 decisionStyle\n`;
-    mermaid += `  class T029 exceptionStyle\n`;
-    mermaid += `  D029 -.->|NO| T029\n`;
-    mermaid += `  D029 -->|YES| T030W\n\n`;
-
-    mermaid += `  T030W["🏷️ Print & Affix<br/>Container Label"]\n`;
-    mermaid += `  T030VW["✓ Label Scanback<br/>Verification"]\n`;
-    mermaid += `  class T030W,T030VW microStyle\n`;
-    mermaid += `  T030W --> T030VW\n\n`;
-
-    mermaid += `  T031W["➕ Update Running Total"]\n`;
-    mermaid += `  class T031W microStyle\n`;
-    mermaid += `  T030VW --> T031W\n\n`;
-
-    mermaid += `  D031W{"🎯 Target<br/>Reached?"}\n`;
-    mermaid += `  class D031W decisionStyle\n`;
-    mermaid += `  T031W --> D031W\n\n`;
-
-    mermaid += `  LOOP_W_END(("🔄 END<br/>WEIGHING<br/>LOOP"))\n`;
-    mermaid += `  class LOOP_W_END loopStyle\n`;
-    mermaid += `  D031W -.->|NO| T020\n`;
-    mermaid += `  D031W -->|YES| LOOP_W_END\n\n`;
-
-    mermaid += `  CONVERGE["🔗 PATH COMPLETE"]\n`;
-    mermaid += `  class CONVERGE convergeStyle\n`;
-    mermaid += `  LOOP_W_END --> CONVERGE\n\n`;
-  }
-
-  // ========================================
-  // STAGE 4: LABELING & DOCUMENTATION
-  // ========================================
-  mermaid += `  M5["🏷️ LABELING, RECONCILIATION<br/>& DOCUMENTATION"]\n`;
-  mermaid += `  class M5 macroStyle\n`;
-  mermaid += `  CONVERGE ==> M5\n\n`;
-
-  mermaid += `  T040["👁️ Label Preview<br/>& Validation"]\n`;
-  mermaid += `  T042["📋 Print Aggregate/<br/>Kit Label"]\n`;
-  mermaid += `  T044["✅ Label Reconciliation<br/>(Printed vs Used vs Voided)"]\n`;
-  mermaid += `  class T040,T042,T044 microStyle\n\n`;
-
-  mermaid += `  M5 --> T040\n`;
-  mermaid += `  T040 --> T042\n`;
-  mermaid += `  T042 --> T044\n\n`;
-
-  // ========================================
-  // STAGE 5: POST-DISPENSING
-  // ========================================
-  mermaid += `  M6["📤 POST-DISPENSING<br/>TRANSFER & ERP POSTING"]\n`;
-  mermaid += `  class M6 macroStyle\n`;
-  mermaid += `  T044 ==> M6\n\n`;
-
-  mermaid += `  T050["📍 Assign Storage<br/>Location"]\n`;
-  mermaid += `  T051["🤝 Handover Scan<br/>(Chain of Custody)"]\n`;
-  mermaid += `  T052A["✓ ERP GI Posting<br/>Acknowledgement"]\n`;
-  mermaid += `  T053["📊 Variance<br/>Reconciliation"]\n`;
-  mermaid += `  T054["✅ Close Deviations<br/>& Attach Evidence"]\n`;
-  mermaid += `  T055["📁 Archive Logs<br/>& Finalize Record"]\n`;
-  mermaid += `  class T050,T051,T052A,T053,T054,T055 microStyle\n\n`;
-
-  mermaid += `  M6 --> T050\n`;
-  mermaid += `  T050 --> T051\n`;
-  mermaid += `  T051 --> T052A\n`;
-  mermaid += `  T052A --> T053\n`;
-  mermaid += `  T053 --> T054\n`;
-  mermaid += `  T054 --> T055\n\n`;
-
-  // ========================================
-  // END NODE
-  // ========================================
-  mermaid += `  COMPLETE([🎉 DISPENSING COMPLETE])\n`;
-  mermaid += `  style COMPLETE fill:#4caf50,stroke:#2e7d32,stroke-width:4px,color:#ffffff,font-weight:bold,font-size:18px\n`;
-  mermaid += `  T055 ==> COMPLETE\n`;
+// Data loading functions
+async function loadDecisions(): Promise<Decision[]> {
+  return repository.load<Decision[]>('decisions');
+}
 
-  return mermaid;
+async function loadTasks(): Promise<Task[]> {
+  return repository.load<Task[]>('tasks');
 }
 
-// Add this new function after generateBeautifulMermaidDiagram for Dispensing
+// Library files keep short string arrays on one line, so format them the same way
+function formatLibraryJson(data: unknown): string {
+  return JSON.stringify(data, null, 2).replace(
+    /\[\n\s*((?:"(?:[^"\\]|\\.)*"(?:,\n\s*)?)+)\n\s*\]/g,
+    (_match, items: string) => `[${items.split(/,\n\s*/).join(', ')}]`
+  );
+}
 
-/**
- * Generate beautiful Granulation workflow with enhanced UI
- */
-function generateGranulationWorkflow(
-  filteredTasks: Task[],
-  allTasks: Task[],
-  decisions: { [key: string]: ClientDecision },
-  clientName: string
-): string {
-  let mermaid = `%%{init: {'theme':'base', 'themeVariables': { 'primaryColor':'#e1f5ff','primaryTextColor':'#01579b','primaryBorderColor':'#0288d1','lineColor':'#546e7a','secondaryColor':'#fff9e1','tertiaryColor':'#f3e5f5'}}}%%\n`;
-  mermaid += `graph TB\n`;
-  mermaid += `  classDef macroStyle fill:#0288d1,stroke:#01579b,stroke-width:4px,color:#ffffff,font-weight:bold,font-size:16px\n`;
-  mermaid += `  classDef microStyle fill:#fff9e1,stroke:#f9a825,stroke-width:2px,color:#3e2723,font-size:14px\n`;
-  mermaid += `  classDef loopStyle fill:#8e24aa,stroke:#4a148c,stroke-width:3px,color:#ffffff,font-weight:bold,font-size:14px\n`;
-  mermaid += `  classDef exceptionStyle fill:#ffcdd2,stroke:#c62828,stroke-width:3px,stroke-dasharray:8 4,color:#b71c1c,font-weight:bold\n`;
-  mermaid += `  classDef decisionStyle fill:#fff3e0,stroke:#e65100,stroke-width:3px,color:#e65100,font-weight:bold\n`;
-  mermaid += `  classDef convergeStyle fill:#c8e6c9,stroke:#2e7d32,stroke-width:3px,color:#1b5e20,font-weight:bold\n\n`;
-
-  // Get key decisions
-  const methodDecision = decisions['GRAN-D-METHOD-001']?.selected_outcome || 'Wet';
-  const cleaningDecision = decisions['GRAN-D-CLN-001']?.selected_outcome || 'Visual + swab';
-  const calibrationDecision = decisions['GRAN-D-CAL-001']?.selected_outcome || 'Before each batch';
-  const envDecision = decisions['GRAN-D-ENV-001']?.selected_outcome || 'Automated (HVAC historian)';
-  
-  // ========================================
-  // START NODE
-  // ========================================
-  mermaid += `  START([🏁 START GRANULATION])\n`;
-  mermaid += `  style START fill:#4caf50,stroke:#2e7d32,stroke-width:4px,color:#ffffff,font-weight:bold,font-size:18px\n\n`;
-
-  // ========================================
-  // STAGE 1: PRE-GRANULATION
-  // ========================================
-  mermaid += `  M1["🔬 PRE-GRANULATION<br/>EQUIPMENT READINESS"]\n`;
-  mermaid += `  class M1 macroStyle\n`;
-  mermaid += `  START --> M1\n\n`;
-
-  mermaid += `  T101["📋 Retrieve Batch Order<br/>& Master Recipe"]\n`;
-  mermaid += `  T102["🧹 Request Line<br/>Clearance"]\n`;
-  mermaid += `  class T101,T102 microStyle\n`;
-  mermaid += `  M1 --> T101\n`;
-  mermaid += `  T101 --> T102\n\n`;
-
-  // Cleaning verification
-  mermaid += `  D103{"✓ Cleaning<br/>Valid?"}\n`;
-  mermaid += `  T103A["✅ Cleaning<br/>Verification OK"]\n`;
-  mermaid += `  T103B["⚠️ RE-CLEAN<br/>Equipment"]\n`;
-  mermaid += `  class D103 decisionStyle\n`;
-  mermaid += `  class T103A microStyle\n`;
-  mermaid += `  class T103B exceptionStyle\n`;
-  mermaid += `  T102 --> D103\n`;
-  mermaid += `  D103 -->|YES| T103A\n`;
-  mermaid += `  D103 -.->|NO| T103B\n`;
-  mermaid += `  T103B -.-> T103A\n\n`;
-
-  // Calibration check
-  mermaid += `  D104{"⚖️ Instruments<br/>Calibrated?"}\n`;
-  mermaid += `  T104A["✅ Calibration<br/>Valid"]\n`;
-  mermaid += `  T104B["⚠️ CALIBRATE<br/>or Block"]\n`;
-  mermaid += `  class D104 decisionStyle\n`;
-  mermaid += `  class T104A microStyle\n`;
-  mermaid += `  class T104B exceptionStyle\n`;
-  mermaid += `  T103A --> D104\n`;
-  mermaid += `  D104 -->|YES| T104A\n`;
-  mermaid += `  D104 -.->|NO| T104B\n`;
-  mermaid += `  T104B -.-> T104A\n\n`;
-
-  // Environmental monitoring
-  const envLabel = envDecision.includes('Automated') ? '🌡️ Monitor Environment<br/>T/RH - Automated' : '🌡️ Monitor Environment<br/>T/RH - Manual Entry';
-  mermaid += `  T105["${envLabel}"]\n`;
-  mermaid += `  class T105 microStyle\n`;
-  mermaid += `  T104A --> T105\n\n`;
-
-  mermaid += `  D106{"🌡️ Environment<br/>Within Range?"}\n`;
-  mermaid += `  T106A["✅ Environment<br/>Acceptable"]\n`;
-  mermaid += `  T106B["⚠️ PAUSE<br/>Deviation"]\n`;
-  mermaid += `  class D106 decisionStyle\n`;
-  mermaid += `  class T106A microStyle\n`;
-  mermaid += `  class T106B exceptionStyle\n`;
-  mermaid += `  T105 --> D106\n`;
-  mermaid += `  D106 -->|YES| T106A\n`;
-  mermaid += `  D106 -.->|NO| T106B\n`;
-  mermaid += `  T106B -.-> T106A\n\n`;
-
-  mermaid += `  T107["✅ Equipment<br/>Ready Sign-Off"]\n`;
-  mermaid += `  class T107 convergeStyle\n`;
-  mermaid += `  T106A --> T107\n\n`;
-
-  // ========================================
-  // STAGE 2: MATERIAL TRANSFER & VERIFICATION
-  // ========================================
-  mermaid += `  M2["📦 MATERIAL TRANSFER<br/>& VERIFICATION"]\n`;
-  mermaid += `  class M2 macroStyle\n`;
-  mermaid += `  T107 ==> M2\n\n`;
-
-  const matVerification = decisions['GRAN-D-MAT-001']?.selected_outcome || 'Barcode scan mandatory';
-  const containerCheck = decisions['GRAN-D-CONT-001']?.selected_outcome || 'Yes (visual + seal)';
-
-  mermaid += `  T201["📥 Receive Dispensed<br/>Materials"]\n`;
-  mermaid += `  T202["📱 ${matVerification.includes('Barcode') ? 'Barcode Scan' : 'Manual ID'}<br/>Mandatory Verification"]\n`;
-  
-  if (containerCheck.startsWith('Yes')) {
-    const checkType = containerCheck.includes('seal') ? 'Visual + Seal Check' : 'Visual Only Check';
-    mermaid += `  T203["🔍 Container Integrity<br/>${checkType}"]\n`;
-  }
-  
-  mermaid += `  T204["✅ Material<br/>Verification Complete"]\n`;
-  mermaid += `  class T201,T202,T203,T204 microStyle\n`;
-  mermaid += `  M2 --> T201\n`;
-  mermaid += `  T201 --> T202\n`;
-  mermaid += `  T202 --> T203\n`;
-  mermaid += `  T203 --> T204\n\n`;
-
-  // ========================================
-  // STAGE 3: BINDER PREPARATION (if Wet granulation)
-  // ========================================
-  if (methodDecision === 'Wet') {
-    mermaid += `  M3["💧 BINDER SOLUTION<br/>PREPARATION"]\n`;
-    mermaid += `  class M3 macroStyle\n`;
-    mermaid += `  T204 ==> M3\n\n`;
-
-    const binderPrep = decisions['GRAN-D-BINDER-001']?.selected_outcome || 'Pre-made batch in separate vessel';
-    const binderQC = decisions['GRAN-D-BINDER-QC-001']?.selected_outcome || 'Concentration + pH';
-
-    const prepLabel = binderPrep.includes('In-line') ? 'In-line Preparation' : 'Pre-Made Batch<br/>in Separate Vessel';
-    mermaid += `  T301["⚗️ ${prepLabel}"]\n`;
-    
-    const qcLabel = binderQC.includes('Concentration') ? 'Concentration + pH' : binderQC.includes('Visual') ? 'Visual Only' : 'No QC';
-    mermaid += `  T302["🧪 QC Testing<br/>${qcLabel}"]\n`;
-    mermaid += `  T303["✅ Binder Solution<br/>Approved"]\n`;
-    mermaid += `  class T301,T302,T303 microStyle\n`;
-    mermaid += `  M3 --> T301\n`;
-    mermaid += `  T301 --> T302\n`;
-    mermaid += `  T302 --> T303\n\n`;
-  }
-
-  // ========================================
-  // STAGE 4: GRANULATION PROCESS
-  // ========================================
-  mermaid += `  M4["🔄 GRANULATION<br/>PROCESS"]\n`;
-  mermaid += `  class M4 macroStyle\n`;
-  mermaid += `  ${methodDecision === 'Wet' ? 'T303' : 'T204'} ==> M4\n\n`;
-
-  const recipeSource = decisions['GRAN-D-RECIPE-001']?.selected_outcome || 'MES master recipe';
-  const scadaIntegration = decisions['GRAN-D-SCADA-001']?.selected_outcome || 'Yes (automated setpoints)';
-  
-  mermaid += `  T401["📋 Load ${recipeSource.includes('MES') ? 'MES Master' : recipeSource.includes('ERP') ? 'ERP' : 'Manual'}<br/>Recipe & Setpoints"]\n`;
-  
-  if (scadaIntegration.includes('Yes')) {
-    mermaid += `  T402["🎛️ Configure SCADA<br/>Automated Setpoints"]\n`;
-  } else {
-    mermaid += `  T402["🎛️ Configure Process<br/>Manual Setpoints"]\n`;
-  }
-  
-  mermaid += `  class T401,T402 microStyle\n`;
-  mermaid += `  M4 --> T401\n`;
-  mermaid += `  T401 --> T402\n\n`;
-
-  // Setpoint validation
-  if (methodDecision === 'Wet') {
-    mermaid += `  D403{"⚙️ Wet Granulation<br/>Setpoints OK?"}\n`;
-  } else if (methodDecision === 'Dry') {
-    mermaid += `  D403{"⚙️ Dry Granulation<br/>Parameters OK?"}\n`;
-  } else {
-    mermaid += `  D403{"⚙️ Melt Granulation<br/>Setpoints OK?"}\n`;
-  }
-  
-  mermaid += `  T403A["✅ Setpoints<br/>Within Range"]\n`;
-  mermaid += `  T403B["⚠️ ADJUST<br/>or Block"]\n`;
-  mermaid += `  class D403 decisionStyle\n`;
-  mermaid += `  class T403A microStyle\n`;
-  mermaid += `  class T403B exceptionStyle\n`;
-  mermaid += `  T402 --> D403\n`;
-  mermaid += `  D403 -->|YES| T403A\n`;
-  mermaid += `  D403 -.->|NO| T403B\n`;
-  mermaid += `  T403B -.-> T403A\n\n`;
-
-  // Process execution
-  if (methodDecision === 'Wet') {
-    const binderMode = decisions['GRAN-D-WET-PARAM-001']?.selected_outcome || 'Continuous spray';
-    const modeLabel = binderMode.includes('Continuous') ? 'Continuous Spray' : binderMode.includes('Batch') ? 'Batch Addition' : 'Dual-Phase';
-    mermaid += `  T404["💧 ${modeLabel}<br/>Binder Addition"]\n`;
-  } else if (methodDecision === 'Dry') {
-    mermaid += `  T404["🔨 Roller Compaction<br/>Process"]\n`;
-  } else {
-    mermaid += `  T404["🌡️ Melt Process<br/>Execution"]\n`;
-  }
-  
-  const dataCapture = decisions['GRAN-D-CAPTURE-001']?.selected_outcome || 'Automated (SCADA historian)';
-  const captureLabel = dataCapture.includes('Automated') ? 'Automated Data<br/>Capture - SCADA' : 'Manual Entry<br/>with E-Sign';
-  
-  mermaid += `  T405["🔄 ${captureLabel}"]\n`;
-  mermaid += `  T406["📊 Monitor Process<br/>Parameters"]\n`;
-  mermaid += `  class T404,T405,T406 microStyle\n`;
-  mermaid += `  T403A --> T404\n`;
-  mermaid += `  T404 --> T405\n`;
-  mermaid += `  T405 --> T406\n\n`;
-
-  // Endpoint check
-  mermaid += `  D407{"🎯 Endpoint<br/>Reached?"}\n`;
-  mermaid += `  class D407 decisionStyle\n`;
-  mermaid += `  T406 --> D407\n`;
-  mermaid += `  D407 -.->|NO - Continue| T406\n`;
-  mermaid += `  D407 -->|YES| T408\n\n`;
-
-  mermaid += `  T408["🛑 Stop Granulation<br/>Process"]\n`;
-  mermaid += `  class T408 microStyle\n\n`;
-
-  // Equipment failure check
-  mermaid += `  D409{"🔧 Equipment<br/>Failure?"}\n`;
-  mermaid += `  T409A["✅ Process<br/>Complete"]\n`;
-  mermaid += `  T409B["⚠️ TERMINATE<br/>Batch"]\n`;
-  mermaid += `  class D409 decisionStyle\n`;
-  mermaid += `  class T409A microStyle\n`;
-  mermaid += `  class T409B exceptionStyle\n`;
-  mermaid += `  T408 --> D409\n`;
-  mermaid += `  D409 -->|NO| T409A\n`;
-  mermaid += `  D409 -.->|YES - Cannot Recover| T409B\n\n`;
-
-  // IPC Testing
-  const ipcPolicy = decisions['GRAN-D-IPC-001']?.selected_outcome || 'All batches';
-  const limsIntegration = decisions['GRAN-D-LIMS-001']?.selected_outcome || 'Manual entry with reference';
-  
-  mermaid += `  T410["🧪 IPC Testing<br/>Moisture/PSD/Bulk Density"]\n`;
-  
-  const limsLabel = limsIntegration.includes('Full') ? 'Auto-Import from LIMS' : 'Manual Entry<br/>with Reference to LIMS';
-  mermaid += `  T411["📤 ${limsLabel}"]\n`;
-  mermaid += `  class T410,T411 microStyle\n`;
-  mermaid += `  T409A --> T410\n`;
-  mermaid += `  T410 --> T411\n\n`;
-
-  // IPC results check
-  mermaid += `  D412{"📊 IPC Results<br/>Within Spec?"}\n`;
-  mermaid += `  T412A["✅ IPC<br/>Acceptable"]\n`;
-  
-  const deviationSystem = decisions['GRAN-D-DEVIATION-001']?.selected_outcome || 'MES-integrated deviation module';
-  const devLabel = deviationSystem.includes('MES') ? 'MES Integrated' : deviationSystem.includes('External') ? 'External QMS' : 'Both Systems';
-  mermaid += `  T412B["⚠️ DEVIATION<br/>Workflow - ${devLabel}"]\n`;
-  
-  mermaid += `  class D412 decisionStyle\n`;
-  mermaid += `  class T412A microStyle\n`;
-  mermaid += `  class T412B exceptionStyle\n`;
-  mermaid += `  T411 --> D412\n`;
-  mermaid += `  D412 -->|YES| T412A\n`;
-  mermaid += `  D412 -.->|NO| T412B\n`;
-  mermaid += `  T412B -.-> T412A\n\n`;
-
-  // Auto-calculations
-  const autoCalc = decisions['GRAN-D-CALC-001']?.selected_outcome || 'Enabled (binder %, yield)';
-  if (autoCalc.includes('Enabled')) {
-    mermaid += `  T413["🧮 Auto-Calculate<br/>Binder % & Yield"]\n`;
-    mermaid += `  class T413 microStyle\n`;
-    mermaid += `  T412A --> T413\n\n`;
-  }
-
-  // ========================================
-  // STAGE 5: POST-GRANULATION
-  // ========================================
-  mermaid += `  M5["📤 POST-GRANULATION<br/>HANDLING"]\n`;
-  mermaid += `  class M5 macroStyle\n`;
-  mermaid += `  ${autoCalc.includes('Enabled') ? 'T413' : 'T412A'} ==> M5\n\n`;
-
-  const labelingReq = decisions['GRAN-D-LABEL-001']?.selected_outcome || 'GS1-128 barcode + manual fields';
-  const retainPolicy = decisions['GRAN-D-RETAIN-001']?.selected_outcome || 'Mandatory with chain-of-custody';
-  const transferDest = decisions['GRAN-D-TRANSFER-001']?.selected_outcome || 'Intermediate hold area';
-  
-  const labelType = labelingReq.includes('GS1') ? 'GS1-128<br/>Barcode + Manual Fields' : labelingReq.includes('Standard') ? 'Standard Label<br/>+ E-Record' : 'Minimal<br/>Batch ID Only';
-  
-  mermaid += `  T501["🏷️ Print ${labelType}"]\n`;
-  mermaid += `  T502["✅ Label<br/>Verification"]\n`;
-  
-  if (retainPolicy.includes('Mandatory')) {
-    const retainLabel = retainPolicy.includes('chain') ? 'with Chain-of-Custody' : 'No Tracking';
-    mermaid += `  T503["🧪 Collect Retain Sample<br/>${retainLabel}"]\n`;
-  }
-  
-  const transferLabel = transferDest.includes('Direct') ? 'Direct to<br/>Next Stage' : transferDest.includes('Intermediate') ? 'Intermediate Hold Area' : 'Conditional<br/>QA Decision';
-  mermaid += `  T504["📍 Transfer to<br/>${transferLabel}"]\n`;
-  
-  mermaid += `  class T501,T502,T503,T504 microStyle\n`;
-  mermaid += `  M5 --> T501\n`;
-  mermaid += `  T501 --> T502\n`;
-  mermaid += `  T502 --> T503\n`;
-  mermaid += `  T503 --> T504\n\n`;
-
-  // QA Release decision
-  mermaid += `  D505{"👨‍🔬 QA Release<br/>Decision?"}\n`;
-  mermaid += `  T505A["✅ Released"]\n`;
-  mermaid += `  T505B["⛔ Hold"]\n`;
-  mermaid += `  T505C["🔄 Conditional<br/>Rework"]\n`;
-  mermaid += `  class D505 decisionStyle\n`;
-  mermaid += `  class T505A convergeStyle\n`;
-  mermaid += `  class T505B exceptionStyle\n`;
-  mermaid += `  class T505C exceptionStyle\n`;
-  mermaid += `  T504 --> D505\n`;
-  mermaid += `  D505 -->|APPROVED| T505A\n`;
-  mermaid += `  D505 -.->|REJECTED| T505B\n`;
-  mermaid += `  D505 -.->|CONDITIONAL| T505C\n\n`;
-
-  // Yield variance check
-  const yieldThreshold = decisions['GRAN-D-YIELD-001']?.selected_outcome || '±5%';
-  mermaid += `  T506["📊 Yield Variance<br/>Check ${yieldThreshold}"]\n`;
-  mermaid += `  class T506 microStyle\n`;
-  mermaid += `  T505A --> T506\n\n`;
-
-  mermaid += `  D507{"📉 Variance<br/>Within Threshold?"}\n`;
-  mermaid += `  T507A["✅ Yield<br/>Acceptable"]\n`;
-  mermaid += `  T507B["⚠️ INVESTIGATION<br/>Triggered"]\n`;
-  mermaid += `  class D507 decisionStyle\n`;
-  mermaid += `  class T507A microStyle\n`;
-  mermaid += `  class T507B exceptionStyle\n`;
-  mermaid += `  T506 --> D507\n`;
-  mermaid += `  D507 -->|YES - Within ${yieldThreshold}| T507A\n`;
-  mermaid += `  D507 -.->|NO - Exceeds ${yieldThreshold}| T507B\n`;
-  mermaid += `  T507B -.-> T507A\n\n`;
-
-  // Cleaning
-  const cleaningFreq = decisions['GRAN-D-CLEAN-POLICY-001']?.selected_outcome || 'After each batch';
-  const cleanLabel = cleaningFreq.includes('each batch') ? 'After Each Batch' : cleaningFreq.includes('campaign') ? 'After Campaign' : 'After Product Change';
-  
-  mermaid += `  T508["🧹 Initiate Cleaning<br/>${cleanLabel}"]\n`;
-  mermaid += `  class T508 microStyle\n`;
-  mermaid += `  T507A --> T508\n\n`;
-
-  // ========================================
-  // STAGE 6: CLOSEOUT
-  // ========================================
-  mermaid += `  M6["📋 BATCH RECORD<br/>CLOSEOUT"]\n`;
-  mermaid += `  class M6 macroStyle\n`;
-  mermaid += `  T508 ==> M6\n\n`;
-
-  const ebmrPolicy = decisions['GRAN-D-EBMR-001']?.selected_outcome || 'Full electronic (21 CFR Part 11)';
-  const erpPosting = decisions['GRAN-D-ERP-POST-001']?.selected_outcome || 'On QA approval';
-  
-  const ebmrLabel = ebmrPolicy.includes('Full electronic') ? 'Full<br/>Electronic eBMR' : ebmrPolicy.includes('Hybrid') ? 'Hybrid<br/>E-Record + Paper' : 'Paper<br/>Only';
-  
-  mermaid += `  T601["📝 Generate ${ebmrLabel}"]\n`;
-  
-  if (ebmrPolicy.includes('21 CFR Part 11')) {
-    mermaid += `  T602["✍️ 21 CFR Part 11<br/>Electronic Signatures"]\n`;
-  } else {
-    mermaid += `  T602["✍️ Sign Batch<br/>Record"]\n`;
-  }
-  
-  const postingLabel = erpPosting.includes('Real-time') ? 'Real-Time<br/>at Completion' : erpPosting.includes('Batch') ? 'Batch<br/>End of Shift' : 'On QA Approval';
-  mermaid += `  T603["📊 ERP Posting<br/>${postingLabel}"]\n`;
-  
-  mermaid += `  class T601,T602,T603 microStyle\n`;
-  mermaid += `  M6 --> T601\n`;
-  mermaid += `  T601 --> T602\n`;
-  mermaid += `  T602 --> T603\n\n`;
-
-  // QA Batch Review
-  mermaid += `  D604{"👨‍🔬 QA Batch<br/>Review?"}\n`;
-  mermaid += `  T604A["✅ Batch<br/>Approved"]\n`;
-  mermaid += `  T604B["⛔ Batch<br/>Rejected"]\n`;
-  mermaid += `  T604C["⏸️ Pending<br/>Investigation"]\n`;
-  mermaid += `  class D604 decisionStyle\n`;
-  mermaid += `  class T604A convergeStyle\n`;
-  mermaid += `  class T604B exceptionStyle\n`;
-  mermaid += `  class T604C exceptionStyle\n`;
-  mermaid += `  T603 --> D604\n`;
-  mermaid += `  D604 -->|APPROVED| T604A\n`;
-  mermaid += `  D604 -.->|REJECTED| T604B\n`;
-  mermaid += `  D604 -.->|CONDITIONAL| T604C\n\n`;
-
-  // Archive
-  const archivePolicy = decisions['GRAN-D-ARCHIVE-001']?.selected_outcome || 'Electronic archive (validated system)';
-  const archiveLabel = archivePolicy.includes('Electronic archive') ? 'Electronic Archive<br/>Validated System' : archivePolicy.includes('Paper + electronic') ? 'Paper + Electronic<br/>Archive' : 'Site-Specific<br/>Archive';
-  
-  mermaid += `  T605["📁 ${archiveLabel}"]\n`;
-  mermaid += `  T606["✅ Records Retention<br/>per Policy"]\n`;
-  mermaid += `  class T605,T606 microStyle\n`;
-  mermaid += `  T604A --> T605\n`;
-  mermaid += `  T605 --> T606\n\n`;
-
-  // ========================================
-  // END NODE
-  // ========================================
-  mermaid += `  COMPLETE([🎉 GRANULATION COMPLETE])\n`;
-  mermaid += `  style COMPLETE fill:#4caf50,stroke:#2e7d32,stroke-width:4px,color:#ffffff,font-weight:bold,font-size:18px\n`;
-  mermaid += `  T606 ==> COMPLETE\n`;
+async function saveTasks(tasks: Task[]): Promise<void> {
+  await repository.save('tasks', tasks);
+}
 
-  return mermaid;
+async function loadLibraryManifest(): Promise<LibraryManifest> {
+  return repository.load<LibraryManifest>('library');
 }
 
-// Initialize MCP Server
-const server = new Server(
-  {
-    name: 'mes-workflow-server',
-    version: '3.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+async function saveLibraryManifest(manifest: LibraryManifest): Promise<void> {
+  await repository.save('library', manifest);
+}
+
+async function loadStages(): Promise<StageRegistry> {
+  return repository.load<StageRegistry>('stages');
+}
+
+async function loadPresets(): Promise<PresetLibrary> {
+  return repository.load<PresetLibrary>('presets');
+}
+
+async function loadClientDecisions(): Promise<ClientDecisions> {
+  return repository.load<ClientDecisions>('client_decisions', {});
+}
+
+async function saveClientDecisions(data: ClientDecisions): Promise<void> {
+  await repository.save('client_decisions', data);
+}
+
+async function loadClientWorkflows(): Promise<ClientWorkflows> {
+  const data = await repository.load<{ [clientName: string]: WorkflowHistory | SavedWorkflow }>('client_workflows', {});
+
+  // Files from before version history hold one workflow per client; file it under its stage scope
+  const registry = await loadStages();
+  for (const [client, entry] of Object.entries(data)) {
+    if (typeof entry.mermaid_code === 'string') {
+      const workflow = entry as SavedWorkflow;
+      const stageScope =
+        getWorkflowScopes(registry).find((s) => resolveWorkflowScope(registry, s)?.workflowType === workflow.stage) ||
+        workflow.stage;
+      data[client] = { [stageScope]: [workflow] };
+    }
   }
-);
+  return data as ClientWorkflows;
+}
 
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: [
-    {
-      name: 'get_decisions',
-      description: 'Get all decision questions for a manufacturing stage. Use this to understand what questions need to be answered for workflow configuration. Supports Dispensing and Granulation stages.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          stage: {
-            type: 'string',
-            description: 'Stage name: Dispensing stages: "Pre-Dispensing", "Material Allocation", "Weighing & Dispensing", "Labeling & Documentation", "Post-Dispensing"; Granulation stages: "Pre-Granulation", "Material Transfer & Verification", "Binder Preparation", "Granulation", "Post-Granulation", "Closeout"; or "All" for all stages',
-          },
-          category: {
-            type: 'string',
-            description: 'Optional filter by category: "Practice" (configuration decisions) or "Runtime" (exception conditions)',
-          },
-        },
-      },
-    },
-    {
-      name: 'get_decision_details',
-      description: 'Get detailed information about a specific decision including its question, outcomes, and which tasks it affects.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          decision_id: {
-            type: 'string',
-            description: 'The decision ID (e.g., Q-ERP-01, Q-SEC-01 for Dispensing; GRAN-D-METHOD-001, GRAN-D-ENDPOINT-001 for Granulation)',
-          },
-        },
-        required: ['decision_id'],
-      },
-    },
-    {
-      name: 'save_client_decision',
-      description: 'Save a client\'s answer to a decision question. Always validate that the selected outcome matches one of the valid outcomes for that decision.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          client_name: {
-            type: 'string',
-            description: 'Client company name',
-          },
-          decision_id: {
-            type: 'string',
-            description: 'The decision ID (e.g., Q-ERP-01)',
-          },
-          selected_outcome: {
-            type: 'string',
-            description: 'The chosen outcome (must match one of the decision\'s valid outcomes exactly)',
-          },
-          rationale: {
-            type: 'string',
-            description: 'Optional explanation of why this choice was made',
-          },
-        },
-        required: ['client_name', 'decision_id', 'selected_outcome'],
-      },
-    },
-    {
-      name: 'get_client_decisions',
-      description: 'Get all decisions already answered by a client. Use this to check what has been configured and what still needs to be answered.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          client_name: {
-            type: 'string',
-            description: 'Client company name',
-          },
-        },
-        required: ['client_name'],
-      },
-    },
-    {
-      name: 'list_clients',
-      description: 'Get a list of all clients that have been configured in the system.',
-      inputSchema: {
-        type: 'object',
-        properties: {},
-      },
-    },
-    {
-      name: 'generate_workflow',
-      description: 'Generate a Mermaid workflow diagram based on client decisions and automatically save it to client_workflows.json. This filters tasks based on Practice decisions and shows all Runtime exception paths. Version 3.0 includes Dispensing and Granulation stages with beautiful enhanced UI, emojis, and professional styling.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          client_name: {
-            type: 'string',
-            description: 'Client company name',
-          },
-          stage: {
-            type: 'string',
-            description: `Stage to generate workflow for:
-            
-    **Complete Workflows:**
-    - "All" - Both Dispensing + Granulation combined (full end-to-end)
-    - "Complete-Dispensing" - All 5 Dispensing stages only
-    - "Complete-Granulation" - All 6 Granulation stages only
-
-    **Individual Dispensing Stages:**
-    - "Pre-Dispensing"
-    - "Material Allocation"
-    - "Weighing & Dispensing"
-    - "Labeling & Documentation"
-    - "Post-Dispensing"
-
-    **Individual Granulation Stages:**
-    - "Pre-Granulation"
-    - "Material Transfer & Verification"
-    - "Binder Preparation"
-    - "Granulation"
-    - "Post-Granulation"
-    - "Closeout"`,
-          },
-        },
-        required: ['client_name', 'stage'],
-      },
-    },
-    {
-      name: 'get_saved_workflow',
-      description: 'Retrieve the most recently generated workflow for a client from client_workflows.json.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          client_name: {
-            type: 'string',
-            description: 'Client company name',
-          },
-        },
-        required: ['client_name'],
-      },
-    },
-    {
-      name: 'export_workflow',
-      description: 'Export a client\'s saved workflow as a PNG image to the exports/[client_name]/ directory. This creates a timestamped file for the finalized workflow.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          client_name: {
-            type: 'string',
-            description: 'Client company name',
-          },
-          format: {
-            type: 'string',
-            description: 'Export format (currently only "png" is supported)',
-            enum: ['png'],
-          },
-        },
-        required: ['client_name'],
-      },
-    },
-    {
-      name: 'list_exports',
-      description: 'List all exported workflow files for a specific client.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          client_name: {
-            type: 'string',
-            description: 'Client company name',
-          },
-        },
-        required: ['client_name'],
-      },
-    },
-    {
-      name: 'get_unanswered_decisions',
-      description: 'Get list of Practice decisions that still need to be answered for a client. Useful to determine what questions to ask next.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          client_name: {
-            type: 'string',
-            description: 'Client company name',
-          },
-          stage: {
-            type: 'string',
-            description: 'Optional: filter by specific stage',
-          },
-        },
-        required: ['client_name'],
-      },
-    },
-    {
-      name: 'validate_workflow',
-      description: 'Validate a generated workflow for disconnected nodes, missing edges, and structural issues.',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          client_name: {
-            type: 'string',
-            description: 'Client company name',
-          },
-          stage: {
-            type: 'string',
-            description: 'Stage to validate',
-          },
-        },
-        required: ['client_name', 'stage'],
-      },
-    },
-  ],
-}));
+// A saved version for a stage scope; the latest version, or the most recently generated across scopes
+function findSavedWorkflow(
+  history: WorkflowHistory | undefined,
+  stage?: string,
+  version?: number
+): { stage: string; workflow: SavedWorkflow } | undefined {
+  const candidates = Object.entries(history || {})
+    .filter(([stageScope]) => !stage || stageScope === stage)
+    .flatMap(([stageScope, versions]) => versions.map((workflow) => ({ stage: stageScope, workflow })))
+    .filter(({ workflow }) => version === undefined || workflow.version === version);
+  return candidates.sort((a, b) => a.workflow.last_generated.localeCompare(b.workflow.last_generated)).pop();
+}
+
+async function saveClientWorkflows(data: ClientWorkflows): Promise<void> {
+  await repository.save('client_workflows', data);
+}
+
+async function loadClientTasks(): Promise<ClientTasks> {
+  return repository.load<ClientTasks>('client_tasks', {});
+}
+
+async function saveClientTasks(data: ClientTasks): Promise<void> {
+  await repository.save('client_tasks', data);
+}
+
+// Base library plus the client's custom tasks
+async function loadClientTaskLibrary(clientName: string): Promise<Task[]> {
+  const clientTasks = await loadClientTasks();
+  return mergeCustomTasks(await loadTasks(), clientTasks[clientName] || []);
+}
+
+async function loadClientArchive(): Promise<ClientArchive> {
+  return repository.load<ClientArchive>('client_archive', {});
+}
+
+async function saveClientArchive(data: ClientArchive): Promise<void> {
+  await repository.save('client_archive', data);
+}
+
+async function loadClientSites(): Promise<ClientSites> {
+  return repository.load<ClientSites>('client_sites', {});
+}
+
+async function saveClientSites(data: ClientSites): Promise<void> {
+  await repository.save('client_sites', data);
+}
+
+// A client name is taken if any store (including the archive) or exports folder uses it
+async function isClientNameTaken(name: string): Promise<boolean> {
+  const [decisions, workflows, tasks, sites, archive] = await Promise.all([
+    loadClientDecisions(),
+    loadClientWorkflows(),
+    loadClientTasks(),
+    loadClientSites(),
+    loadClientArchive(),
+  ]);
+  return (
+    name in decisions ||
+    name in workflows ||
+    name in tasks ||
+    name in sites ||
+    name in archive ||
+    existsSync(exportsPath(name))
+  );
+}
+
+// Site and product answers and workflows live in the client stores under "Client/Site[/Product]" keys
+const SCOPE_SEPARATOR = '/';
+
+type ScopeLevel = 'client' | 'site' | 'product';
+
+interface ClientScope {
+  client: string;
+  site?: string;
+  product?: string;
+  // Store key of this scope's own answers and saved workflow
+  key: string;
+  // Client first; answers at later levels override earlier ones
+  chain: { level: ScopeLevel; key: string }[];
+}
+
+function buildClientScope(client: string, site?: string, product?: string): ClientScope {
+  const chain: ClientScope['chain'] = [{ level: 'client', key: client }];
+  if (site) {
+    chain.push({ level: 'site', key: [client, site].join(SCOPE_SEPARATOR) });
+    if (product) {
+      chain.push({ level: 'product', key: [client, site, product].join(SCOPE_SEPARATOR) });
+    }
+  }
+  return { client, site, product, key: chain[chain.length - 1].key, chain };
+}
+
+function describeScope(scope: ClientScope): string {
+  return [scope.client, scope.site, scope.product].filter(Boolean).join(' / ');
+}
+
+// Names become store keys and folders under the exports directory, so path characters are refused
+const INVALID_NAME_CHARACTERS = /[/\\:*?"<>|\u0000-\u001f]/;
+// Exports folder of archived clients
+const ARCHIVED_EXPORTS_FOLDER = '_archived';
+
+// Error message for an unusable client, site or product name; null when the name is fine
+function checkScopeName(name: string): string | null {
+  if (!name.trim()) {
+    return 'Names may not be empty';
+  }
+  if (/^\.+$/.test(name.trim()) || name === ARCHIVED_EXPORTS_FOLDER) {
+    return `"${name}" is reserved and cannot be used as a name`;
+  }
+  if (INVALID_NAME_CHARACTERS.test(name)) {
+    return `Names may not contain path characters (/ \\ : * ? " < > | or control characters): ${JSON.stringify(name)}`;
+  }
+  return null;
+}
+
+function isInsideDir(dir: string, target: string): boolean {
+  const relative = path.relative(path.resolve(dir), path.resolve(target));
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+// Folder strictly inside the exports directory; throws rather than let a name reach outside it
+function exportsPath(...segments: string[]): string {
+  const target = path.resolve(workspace.exportsDir, ...segments);
+  if (!isInsideDir(workspace.exportsDir, target)) {
+    throw new Error(`Refusing to touch ${target}: it is not inside the exports directory ${workspace.exportsDir}`);
+  }
+  return target;
+}
+
+// Archived exports folder recorded in the archive; throws when the record points anywhere else
+function archivedExportsPath(entry: ArchivedClient): string | undefined {
+  if (entry.exports_dir && !isInsideDir(exportsPath(ARCHIVED_EXPORTS_FOLDER), entry.exports_dir)) {
+    throw new Error(`Refusing to touch ${entry.exports_dir}: it is not inside ${exportsPath(ARCHIVED_EXPORTS_FOLDER)}`);
+  }
+  return entry.exports_dir;
+}
+
+// Check the names and that the site and product are registered; returns an error message otherwise
+async function resolveClientScope(client: string, site?: string, product?: string): Promise<ClientScope | string> {
+  const invalid = [client, site, product].map((name) => (name === undefined ? null : checkScopeName(name))).find(Boolean);
+  if (invalid) {
+    return invalid;
+  }
+  if (product && !site) {
+    return `Product "${product}" needs its site`;
+  }
+  if (site) {
+    const definition = (await loadClientSites())[client]?.[site];
+    if (!definition) {
+      return `Site "${site}" is not registered for ${client}; add it with \`add_site\``;
+    }
+    if (product && !definition.products.includes(product)) {
+      return `Product "${product}" is not registered for ${client} / ${site}; add it with \`add_site\``;
+    }
+  }
+  return buildClientScope(client, site, product);
+}
+
+interface ScopedAnswers {
+  answers: { [decisionId: string]: ClientDecision };
+  // Level each effective answer was set at
+  sources: { [decisionId: string]: ScopeLevel };
+}
+
+// Effective answers for a scope: client answers, overridden by the site's, then the product's
+function resolveScopedAnswers(clientDecisions: ClientDecisions, scope: ClientScope): ScopedAnswers {
+  const answers: ScopedAnswers['answers'] = {};
+  const sources: ScopedAnswers['sources'] = {};
+  for (const { level, key } of scope.chain) {
+    for (const [id, answer] of Object.entries(clientDecisions[key] || {})) {
+      answers[id] = answer;
+      sources[id] = level;
+    }
+  }
+  return { answers, sources };
+}
+
+// "inherited from client" / "overridden at site"; empty when viewing the client itself
+function describeAnswerSource(scope: ClientScope, level: ScopeLevel | undefined): string {
+  if (!level || scope.chain.length === 1) return '';
+  return level === scope.chain[scope.chain.length - 1].level ? `overridden at ${level}` : `inherited from ${level}`;
+}
+
+// Store keys belonging to a client: its own and those of its sites and products
+function clientScopeKeys(store: object, client: string): string[] {
+  return Object.keys(store).filter((key) => key === client || key.startsWith(client + SCOPE_SEPARATOR));
+}
+
+const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+async function loadAuditLog(): Promise<AuditEntry[]> {
+  return repository.loadAuditLog();
+}
+
+// Hash over every field except the hash itself, in a fixed order
+function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  const canonical = JSON.stringify([
+    entry.sequence,
+    entry.timestamp,
+    entry.client,
+    entry.decision_id,
+    entry.action,
+    entry.author,
+    entry.old_value,
+    entry.new_value,
+    entry.reason,
+    entry.prev_hash,
+  ]);
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+async function appendAuditEntries(changes: AuditChange[], action: string, author: string): Promise<void> {
+  if (changes.length === 0) return;
+
+  const log = await loadAuditLog();
+  let prevHash = log.length > 0 ? log[log.length - 1].hash : AUDIT_GENESIS_HASH;
+  let sequence = log.length > 0 ? log[log.length - 1].sequence : 0;
+  const timestamp = new Date().toISOString();
+
+  const entries = changes.map((change) => {
+    sequence += 1;
+    const entry: Omit<AuditEntry, 'hash'> = { sequence, timestamp, ...change, action, author, prev_hash: prevHash };
+    const hash = hashAuditEntry(entry);
+    prevHash = hash;
+    return { ...entry, hash };
+  });
+
+  await repository.appendAuditLog(entries);
+}
+
+// Recompute the chain; any edited, removed or reordered entry breaks it
+function verifyAuditChain(log: AuditEntry[]): string | null {
+  let prevHash = AUDIT_GENESIS_HASH;
+  for (const [index, entry] of log.entries()) {
+    if (entry.sequence !== index + 1) {
+      return `entry ${index + 1} has sequence ${entry.sequence} (entries removed or reordered)`;
+    }
+    if (entry.prev_hash !== prevHash) {
+      return `entry ${entry.sequence} does not link to the previous entry`;
+    }
+    const { hash, ...fields } = entry;
+    if (hashAuditEntry(fields) !== hash) {
+      return `entry ${entry.sequence} was modified after it was written`;
+    }
+    prevHash = hash;
+  }
+  return null;
+}
+
+// Per-decision changes between two versions of a client's answers
+function diffAnswers(
+  client: string,
+  before: { [key: string]: ClientDecision },
+  after: { [key: string]: ClientDecision },
+  reason: string
+): AuditChange[] {
+  const changes: AuditChange[] = [];
+  for (const id of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const oldValue = before[id]?.selected_outcome ?? null;
+    const newValue = after[id]?.selected_outcome ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ client, decision_id: id, old_value: oldValue, new_value: newValue, reason });
+    }
+  }
+  return changes;
+}
+
+// Ensure exports directory exists
+async function ensureExportsDir(): Promise<void> {
+  if (!existsSync(workspace.exportsDir)) {
+    await fs.mkdir(workspace.exportsDir, { recursive: true });
+  }
+}
+
+const RENDER_VIEWPORT = { width: 2400, height: 3000 };
+const RENDER_TIMEOUT_MS = 60000;
+
+// One headless browser serves every export; it starts on first use and closes with the server
+let renderBrowser: Promise<Browser> | null = null;
+
+async function getRenderBrowser(): Promise<Browser> {
+  if (!renderBrowser) {
+    renderBrowser = import('puppeteer').then(({ default: puppeteer }) => puppeteer.launch({ headless: 'shell' }));
+    // A failed launch is retried on the next export
+    renderBrowser.catch(() => (renderBrowser = null));
+  }
+
+  const browser = await renderBrowser;
+  if (!browser.connected) {
+    renderBrowser = null;
+    return getRenderBrowser();
+  }
+  return browser;
+}
+
+async function closeRenderBrowser(): Promise<void> {
+  const browser = await renderBrowser?.catch(() => null);
+  renderBrowser = null;
+  await browser?.close();
+}
+
+// Mermaid numbers lines after dropping the leading init directive; map its line back to the definition
+function findFailingMermaidLine(definition: string, message: string): { line: number; text: string } | null {
+  const match = message.match(/on line (\d+)/i);
+  if (!match) return null;
+
+  const lines = definition.split('\n');
+  let leading = 0;
+  while (leading < lines.length && /^\s*(%%\{.*\}%%)?\s*$/.test(lines[leading])) {
+    leading++;
+  }
+  const line = Number(match[1]) + leading;
+  return line <= lines.length ? { line, text: lines[line - 1].trim() } : null;
+}
+
+// Rendered in its own browser context, so a render that times out can be torn down without the browser
+async function renderMermaidDiagram(definition: string, format: 'png' | 'svg'): Promise<Uint8Array> {
+  const browser = await getRenderBrowser();
+  const { renderMermaid } = await import('@mermaid-js/mermaid-cli');
+  const context = await browser.createBrowserContext();
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Rendering timed out after ${RENDER_TIMEOUT_MS / 1000}s`)), RENDER_TIMEOUT_MS);
+  });
+
+  try {
+    const { data } = await Promise.race([
+      renderMermaid(context, definition, format, { viewport: RENDER_VIEWPORT, backgroundColor: 'white' }),
+      timeout,
+    ]);
+    return data;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const failing = findFailingMermaidLine(definition, message);
+    throw new Error(failing ? `Mermaid line ${failing.line} failed: ${failing.text}\n\n${message}` : message);
+  } finally {
+    clearTimeout(timer);
+    await context.close().catch(() => undefined);
+  }
+}
+
+// Ensure client export directory exists
+async function ensureClientExportDir(clientName: string): Promise<string> {
+  await ensureExportsDir();
+  const clientDir = exportsPath(clientName);
+  if (!existsSync(clientDir)) {
+    await fs.mkdir(clientDir, { recursive: true });
+  }
+  return clientDir;
+}
+
+// Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+// Parse RFC 4180 CSV, keeping the line each record starts on for error reporting
+function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+
+  // Blank lines carry no data
+  return records.filter((r) => r.fields.some((f) => f.trim() !== ''));
+}
+
+// Separator for several outcomes in one questionnaire cell
+const CSV_OUTCOME_SEPARATOR = ' | ';
+
+const QUESTIONNAIRE_COLUMNS = [
+  'decision_id',
+  'stage',
+  'question',
+  'outcomes',
+  'multi_select',
+  'applies_when',
+  'recommended',
+  'affects',
+  'notes',
+  // The client's answer when the questionnaire was written, for reference; import reads only answer and rationale
+  'current_answer',
+  'current_rationale',
+  // Filled for site and product questionnaires: inherited or overridden
+  'answer_source',
+  'answer',
+  'rationale',
+];
+
+// All stage names in workflow order, family by family
+function getStageOrder(registry: StageRegistry): string[] {
+  return registry.families.flatMap((family) => family.stages.map((s) => s.name));
+}
+
+function findStageFamily(registry: StageRegistry, stage: string): StageFamily | undefined {
+  return registry.families.find((family) => family.stages.some((s) => s.name === stage));
+}
+
+// Valid `stage` arguments for generation: "All", "Complete-<Family>" and every individual stage
+function getWorkflowScopes(registry: StageRegistry): string[] {
+  return ['All', ...registry.families.map((family) => `Complete-${family.name}`), ...getStageOrder(registry)];
+}
+
+interface WorkflowScope {
+  workflowType: string;
+  sections: { title: string; stages: string[] }[];
+}
+
+// Resolve a `stage` argument into the workflow label and the stages of each diagram section
+function resolveWorkflowScope(registry: StageRegistry, stage: string): WorkflowScope | null {
+  if (stage === 'All') {
+    return {
+      workflowType: `Complete (${registry.families.map((f) => f.display_name).join(' + ')})`,
+      sections: registry.families.map((family) => ({
+        title: family.display_name,
+        stages: family.stages.map((s) => s.name),
+      })),
+    };
+  }
+
+  const completeFamily = registry.families.find((family) => stage === `Complete-${family.name}`);
+  if (completeFamily) {
+    return {
+      workflowType: `Complete ${completeFamily.display_name} Workflow`,
+      sections: [{ title: completeFamily.display_name, stages: completeFamily.stages.map((s) => s.name) }],
+    };
+  }
+
+  const family = findStageFamily(registry, stage);
+  if (family) {
+    const definition = family.stages.find((s) => s.name === stage)!;
+    return {
+      workflowType: `${family.display_name} - ${stage}`,
+      sections: [{ title: definition.display_name, stages: [stage] }],
+    };
+  }
+
+  return null;
+}
+
+// Markdown listing of the valid workflow scopes, used in tool descriptions and errors
+function describeWorkflowScopes(registry: StageRegistry): string {
+  let text = `**Complete Workflows:**\n`;
+  text += `- "All" - ${registry.families.map((f) => f.display_name).join(' + ')} combined (full end-to-end)\n`;
+  for (const family of registry.families) {
+    text += `- "Complete-${family.name}" - All ${family.stages.length} ${family.display_name} stages only\n`;
+  }
+  for (const family of registry.families) {
+    text += `\n**Individual ${family.display_name} Stages:**\n`;
+    text += family.stages.map((s) => `- "${s.name}"`).join('\n') + '\n';
+  }
+  return text;
+}
+
+// Decisions may list several stages ("A; B") or apply globally
+function decisionAppliesToStage(decision: Decision, stage: string): boolean {
+  if (decision.stage === GLOBAL_STAGE) return true;
+  return decision.stage.split(';').some((s) => s.trim() === stage);
+}
+
+// Validate a requested answer against the decision's outcomes and selection mode
+function parseSelectedOutcome(
+  decision: Decision,
+  selected: string | string[]
+): { value: string | string[] } | { error: string } {
+  const chosen = [...new Set(Array.isArray(selected) ? selected : [selected])];
+
+  if (chosen.length === 0) {
+    return { error: `No outcome selected. Valid options are: ${decision.outcomes.join(', ')}` };
+  }
+  if (chosen.length > 1 && !decision.multi_select) {
+    return { error: `${decision.id} is single-select; choose exactly one of: ${decision.outcomes.join(', ')}` };
+  }
+  const invalid = chosen.filter((outcome) => !decision.outcomes.includes(outcome));
+  if (invalid.length > 0) {
+    return {
+      error: `Invalid outcome ${invalid.map((o) => `"${o}"`).join(', ')}. Valid options are: ${decision.outcomes.join(', ')}`,
+    };
+  }
+
+  return { value: decision.multi_select ? chosen : chosen[0] };
+}
+
+const STATUS_LABELS: { [status in DecisionStatus]: string } = {
+  draft: '[draft]',
+  proposed: '[proposed]',
+  approved: '[approved 🔒]',
+};
+
+// Only approved answers, as they were approved (pending change requests are not in force)
+function approvedAnswers(answers: { [key: string]: ClientDecision }): { [key: string]: ClientDecision } {
+  return Object.fromEntries(Object.entries(answers).filter(([, answer]) => answer.status === 'approved'));
+}
+
+// Selected outcomes as a list, whether the decision is single- or multi-select
+function selectedOutcomes(answer: ClientDecision | undefined): string[] {
+  if (!answer) return [];
+  return Array.isArray(answer.selected_outcome) ? answer.selected_outcome : [answer.selected_outcome];
+}
+
+function formatSelectedOutcome(answer: ClientDecision | undefined): string {
+  return selectedOutcomes(answer).join(' + ');
+}
+
+// Human-readable form of a decision's applicability conditions
+function describeConditions(conditions: DecisionCondition[]): string {
+  return conditions.map((c) => `${c.decision_id} = ${c.outcomes.join(' / ')}`).join(' AND ');
+}
+
+// A decision applies when all of its conditions are met by applicable answers
+function isDecisionApplicable(
+  decision: Decision,
+  answers: { [key: string]: ClientDecision },
+  library: Decision[],
+  visiting: Set<string> = new Set()
+): boolean {
+  if (!decision.applies_when || decision.applies_when.length === 0) {
+    return true;
+  }
+  if (visiting.has(decision.id)) {
+    return false;
+  }
+  visiting.add(decision.id);
+
+  const applicable = decision.applies_when.every((condition) => {
+    const selected = selectedOutcomes(answers[condition.decision_id]);
+    if (!selected.some((outcome) => condition.outcomes.includes(outcome))) {
+      return false;
+    }
+    const prerequisite = library.find((d) => d.id === condition.decision_id);
+    return !prerequisite || isDecisionApplicable(prerequisite, answers, library, visiting);
+  });
+
+  visiting.delete(decision.id);
+  return applicable;
+}
+
+// Drop answers to decisions whose conditions are not met
+function filterApplicableDecisions(
+  answers: { [key: string]: ClientDecision },
+  library: Decision[]
+): { applicable: { [key: string]: ClientDecision }; ignored: string[] } {
+  const applicable: { [key: string]: ClientDecision } = {};
+  const ignored: string[] = [];
+  for (const [id, answer] of Object.entries(answers)) {
+    const decision = library.find((d) => d.id === id);
+    if (!decision || isDecisionApplicable(decision, answers, library)) {
+      applicable[id] = answer;
+    } else {
+      ignored.push(id);
+    }
+  }
+  return { applicable, ignored };
+}
+
+// Fill unanswered, applicable Practice decisions in scope with their recommended outcome
+function applyRecommendedDefaults(
+  answers: { [key: string]: ClientDecision },
+  library: Decision[],
+  stages: string[],
+  useRecommended = true
+): { decisions: { [key: string]: ClientDecision }; assumed: AssumedDecision[]; unanswered: string[] } {
+  const inScope = library.filter(
+    (d) => d.category === 'Practice' && stages.some((stage) => decisionAppliesToStage(d, stage))
+  );
+
+  const merged: { [key: string]: ClientDecision } = { ...answers };
+  for (const decision of inScope) {
+    if (useRecommended && !merged[decision.id] && decision.recommended) {
+      const outcome = decision.recommended.outcome;
+      merged[decision.id] = {
+        selected_outcome: decision.multi_select ? [outcome] : outcome,
+        rationale: `Assumed: ${decision.recommended.justification}`,
+        timestamp: '',
+      };
+    }
+  }
+
+  // Defaults can switch other decisions on or off, so applicability is checked on the merged set
+  const { applicable } = filterApplicableDecisions(merged, library);
+  const assumed = inScope
+    .filter((d) => !answers[d.id] && applicable[d.id])
+    .map((d) => ({ decision_id: d.id, outcome: formatSelectedOutcome(applicable[d.id]) }));
+  const unanswered = inScope
+    .filter((d) => !applicable[d.id] && isDecisionApplicable(d, applicable, library))
+    .map((d) => d.id);
+
+  return { decisions: applicable, assumed, unanswered };
+}
+
+// Answers that are pinned to an older library or no longer match it
+function findStaleAnswers(
+  answers: { [key: string]: ClientDecision },
+  library: Decision[],
+  manifest: LibraryManifest
+): string[] {
+  const stale: string[] = [];
+  for (const [id, answer] of Object.entries(answers)) {
+    const version = answer.library_version || 1;
+    const decision = library.find((d) => d.id === id);
+    if (!decision) {
+      stale.push(`${id} is not defined in library v${manifest.version}`);
+    } else if (selectedOutcomes(answer).some((o) => !decision.outcomes.includes(o))) {
+      stale.push(`${id} = "${formatSelectedOutcome(answer)}" is not a valid outcome in library v${manifest.version}`);
+    } else if (version < manifest.version) {
+      stale.push(`${id} is pinned to library v${version} (current v${manifest.version})`);
+    }
+  }
+  return stale;
+}
+
+interface MigrationResult {
+  answers: { [key: string]: ClientDecision };
+  changes: string[];
+  needsDecision: string[];
+  // Approved answers whose outcome changed; the change is left as a pending change request
+  requested: string[];
+}
+
+// Carry a client's answers through the declared renames up to the current library version
+function migrateAnswers(
+  answers: { [key: string]: ClientDecision },
+  library: Decision[],
+  manifest: LibraryManifest,
+  author: string
+): MigrationResult {
+  const migrated: { [key: string]: ClientDecision } = {};
+  const changes: string[] = [];
+  const needsDecision: string[] = [];
+  const requested: string[] = [];
+  const timestamp = new Date().toISOString();
+  const migrations = [...manifest.migrations].sort((a, b) => a.to - b.to);
+
+  for (const [id, answer] of Object.entries(answers)) {
+    const version = answer.library_version || 1;
+    let currentId = id;
+    let outcomes = selectedOutcomes(answer);
+
+    for (const migration of migrations) {
+      if (migration.to <= version || migration.to > manifest.version) continue;
+      currentId = migration.decision_id_remaps?.[currentId] || currentId;
+      const renames = migration.outcome_renames?.[currentId] || {};
+      outcomes = outcomes.map((o) => renames[o] || o);
+    }
+
+    const decision = library.find((d) => d.id === currentId);
+    const invalid = decision ? outcomes.filter((o) => !decision.outcomes.includes(o)) : [];
+    const outcomeChanged = outcomes.join() !== selectedOutcomes(answer).join();
+    const locked = answer.status === 'approved';
+    let problem = '';
+    if (!decision) {
+      problem = `${id}: decision no longer exists in library v${manifest.version}`;
+    } else if (invalid.length > 0) {
+      problem = `${id}: "${invalid.join('", "')}" is no longer an outcome of ${currentId} (valid: ${decision.outcomes.join(', ')})`;
+    } else if (outcomes.length > 1 && !decision.multi_select) {
+      problem = `${id}: ${currentId} is now single-select but has ${outcomes.length} outcomes selected`;
+    } else if (migrated[currentId] || (currentId !== id && answers[currentId])) {
+      problem = `${id}: remaps to ${currentId}, which is already answered`;
+    } else if (outcomeChanged && locked && answer.change_request) {
+      problem = `${id}: approved with a pending change request; approve or reject it before migrating`;
+    }
+
+    // Unresolvable answers stay as they were so a human can re-decide them
+    if (problem) {
+      needsDecision.push(problem);
+      migrated[id] = answer;
+      continue;
+    }
+
+    const selected_outcome = decision!.multi_select ? outcomes : outcomes[0];
+    if (currentId !== id) {
+      changes.push(`${id} → ${currentId}`);
+    }
+    // Approved answers are locked: a changed outcome waits for approval like any other change request
+    if (outcomeChanged && locked) {
+      requested.push(currentId);
+      migrated[currentId] = {
+        ...answer,
+        change_request: {
+          selected_outcome,
+          reason: `Library v${manifest.version} renamed the outcome "${formatSelectedOutcome(answer)}"`,
+          requested_by: author,
+          timestamp,
+          library_version: manifest.version,
+        },
+      };
+      continue;
+    }
+    if (outcomeChanged) {
+      changes.push(`${currentId}: "${formatSelectedOutcome(answer)}" → "${outcomes.join(' + ')}"`);
+    }
+    migrated[currentId] = { ...answer, selected_outcome, library_version: manifest.version };
+  }
+
+  return { answers: migrated, changes, needsDecision, requested };
+}
+
+// Expand a preset into concrete answers, skipping entries that do not match the library
+function resolvePresetAnswers(
+  preset: Preset,
+  library: Decision[]
+): { answers: Map<string, string | string[]>; issues: string[] } {
+  const answers = new Map<string, string | string[]>();
+  const issues: string[] = [];
+
+  if (preset.include_recommended) {
+    for (const decision of library) {
+      if (decision.category === 'Practice' && decision.recommended) {
+        const outcome = decision.recommended.outcome;
+        answers.set(decision.id, decision.multi_select ? [outcome] : outcome);
+      }
+    }
+  }
+
+  for (const [id, value] of Object.entries(preset.answers)) {
+    const decision = library.find((d) => d.id === id);
+    if (!decision) {
+      issues.push(`${id} is not defined in decisions.json`);
+      continue;
+    }
+    const outcomes = Array.isArray(value) ? value : [value];
+    const invalid = outcomes.filter((o) => !decision.outcomes.includes(o));
+    if (invalid.length > 0 || outcomes.length === 0 || (outcomes.length > 1 && !decision.multi_select)) {
+      issues.push(`${id} = "${outcomes.join(' + ')}" is not a valid answer (valid: ${decision.outcomes.join(', ')})`);
+      continue;
+    }
+    answers.set(id, decision.multi_select ? outcomes : outcomes[0]);
+  }
+
+  return { answers, issues };
+}
+
+const CUSTOM_TASK_PREFIX = 'CUST-';
+
+function isCustomTask(task: Task): boolean {
+  return task.id.startsWith(CUSTOM_TASK_PREFIX);
+}
+
+// Next free custom task ID for a client (CUST-001, CUST-002, ...)
+function nextCustomTaskId(existing: CustomTask[]): string {
+  const used = existing.map((t) => parseInt(t.id.slice(CUSTOM_TASK_PREFIX.length), 10) || 0);
+  const next = used.length > 0 ? Math.max(...used) + 1 : 1;
+  return `${CUSTOM_TASK_PREFIX}${String(next).padStart(3, '0')}`;
+}
+
+// Inserting before a task keeps the predecessors the inserted task does not take over (a join's other branches)
+function predecessorsAfterInsert(target: Task, insertedId: string, insertedPredecessors: string[]): string[] {
+  return [...target.predecessors.filter((p) => !insertedPredecessors.includes(p)), insertedId];
+}
+
+// Layer custom tasks over the base library; insert_before targets are rewired to follow the custom task
+function mergeCustomTasks(base: Task[], custom: CustomTask[]): Task[] {
+  const merged = base.map((task) => ({ ...task, predecessors: [...(task.predecessors || [])] }));
+
+  for (const customTask of custom) {
+    const { insert_before, created: _created, ...task } = customTask;
+    const entry: Task = { ...task, predecessors: [...(task.predecessors || [])] };
+
+    if (insert_before) {
+      const target = merged.find((t) => t.id === insert_before);
+      if (target) {
+        if (entry.predecessors.length === 0) {
+          entry.predecessors = target.predecessors;
+        }
+        target.predecessors = predecessorsAfterInsert(target, entry.id, entry.predecessors);
+      }
+    }
+    merged.push(entry);
+  }
+
+  return merged;
+}
+
+// Check a custom task against the client's merged library before it is saved
+function validateCustomTask(
+  task: CustomTask,
+  library: Task[],
+  decisions: Decision[],
+  registry: StageRegistry
+): string[] {
+  const errors: string[] = [];
+  const byId = new Map(library.map((t) => [t.id, t]));
+
+  if (!getStageOrder(registry).includes(task.stage)) {
+    errors.push(`Unknown stage "${task.stage}"`);
+  }
+  if (!['Micro', 'Macro', 'Loop-Start', 'Loop-End'].includes(task.type)) {
+    errors.push(`Unknown task type "${task.type}" (valid: Micro, Macro, Loop-Start, Loop-End)`);
+  }
+  for (const pred of task.predecessors) {
+    if (!byId.has(pred)) {
+      errors.push(`Predecessor "${pred}" does not exist`);
+    }
+  }
+  if (task.insert_before && !byId.has(task.insert_before)) {
+    errors.push(`insert_before target "${task.insert_before}" does not exist`);
+  }
+  if (task.parent_id) {
+    const parent = byId.get(task.parent_id);
+    if (!parent) {
+      errors.push(`parent_id "${task.parent_id}" does not exist`);
+    } else if (parent.type !== 'Macro') {
+      errors.push(`parent_id "${task.parent_id}" is a ${parent.type} task, not a Macro`);
+    }
+  }
+  if (task.decision_id) {
+    const decision = decisions.find((d) => d.id === task.decision_id);
+    if (!decision) {
+      errors.push(`decision_id "${task.decision_id}" is not defined in decisions.json`);
+    } else if (!task.decision_outcome) {
+      errors.push(`decision_outcome is required with decision_id (valid: ${decision.outcomes.join(', ')})`);
+    } else {
+      const outcomes = decision.outcomes.includes(task.decision_outcome)
+        ? [task.decision_outcome]
+        : task.decision_outcome.split(',').map((o) => o.trim());
+      for (const outcome of outcomes) {
+        if (!decision.outcomes.includes(outcome)) {
+          errors.push(`decision_outcome "${outcome}" is not an outcome of ${decision.id} (valid: ${decision.outcomes.join(', ')})`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+// Either the reasons the task cannot be promoted, or the complete set of changes
+type PromotionPlan =
+  | { errors: string[] }
+  | {
+      promoted: Task;
+      tasks: Task[];
+      clientTasks: ClientTasks;
+      // Next library version, so answers and workflows made before the promotion show as pinned to an older one
+      manifest: LibraryManifest;
+      changes: string[];
+    };
+
+// Next free library ID for a stage's family (DISP-NNN, GRAN-NNN, ...)
+function nextLibraryTaskId(tasks: Task[], registry: StageRegistry, stage: string): string {
+  const family = findStageFamily(registry, stage);
+  const prefix = (family?.name || 'TASK').slice(0, 4).toUpperCase();
+  const pattern = new RegExp(`^${prefix}-(\\d+)$`);
+  const used = tasks.map((t) => t.id.match(pattern)).filter((m): m is RegExpMatchArray => !!m);
+  const next = used.length > 0 ? Math.max(...used.map((m) => parseInt(m[1], 10))) + 1 : 1;
+  return `${prefix}-${String(next).padStart(3, '0')}`;
+}
+
+// Work out every change needed to move a custom task into tasks.json without writing anything
+function planPromotion(
+  clientName: string,
+  taskId: string,
+  newId: string | undefined,
+  baseTasks: Task[],
+  clientTasks: ClientTasks,
+  registry: StageRegistry,
+  manifest: LibraryManifest
+): PromotionPlan {
+  const tasks = baseTasks.map((t) => ({ ...t, predecessors: [...(t.predecessors || [])] }));
+  const overlays: ClientTasks = {};
+  for (const [client, list] of Object.entries(clientTasks)) {
+    overlays[client] = list.map((t) => ({ ...t, predecessors: [...t.predecessors] }));
+  }
+  const changes: string[] = [];
+  const errors: string[] = [];
+
+  const custom = overlays[clientName]?.find((t) => t.id === taskId);
+  if (!custom) {
+    return { errors: [`Custom task ${taskId} not found for ${clientName}`] };
+  }
+
+  const target = custom.insert_before ? tasks.find((t) => t.id === custom.insert_before) : undefined;
+  if (custom.insert_before && !target) {
+    errors.push(`insert_before target "${custom.insert_before}" no longer exists in tasks.json`);
+  }
+  const predecessors = custom.predecessors.length > 0 ? custom.predecessors : target?.predecessors || [];
+
+  // The library cannot reference a single client's custom tasks
+  for (const ref of [...predecessors, custom.parent_id || '']) {
+    if (ref.startsWith(CUSTOM_TASK_PREFIX)) {
+      errors.push(`${taskId} depends on custom task ${ref}; promote ${ref} first`);
+    }
+  }
+
+  const id = newId || nextLibraryTaskId(tasks, registry, custom.stage);
+  if (tasks.some((t) => t.id === id)) {
+    errors.push(`Task ID ${id} already exists in tasks.json`);
+  }
+  if (id.startsWith(CUSTOM_TASK_PREFIX)) {
+    errors.push(`Library task IDs cannot start with ${CUSTOM_TASK_PREFIX}`);
+  }
+
+  const { insert_before: _insertBefore, created: _created, ...fields } = custom;
+  const promoted: Task = {
+    ...fields,
+    id,
+    predecessors: [...predecessors],
+    provenance: { client: clientName, custom_task_id: taskId, promoted: new Date().toISOString() },
+  };
+
+  // Base tasks that follow the promoted task change for every client
+  if (target) {
+    const rewired = predecessorsAfterInsert(target, id, predecessors);
+    changes.push(`tasks.json: ${target.id} predecessors [${target.predecessors.join(', ')}] → [${rewired.join(', ')}]`);
+    target.predecessors = rewired;
+  }
+
+  // Before the insert_before target, else after the last predecessor, else at the end
+  const lastPredecessor = Math.max(-1, ...predecessors.map((p) => tasks.findIndex((t) => t.id === p)));
+  const anchor = target ? tasks.indexOf(target) : lastPredecessor >= 0 ? lastPredecessor + 1 : -1;
+  tasks.splice(anchor >= 0 ? anchor : tasks.length, 0, promoted);
+  changes.push(`tasks.json: add ${id} "${promoted.name}" (${promoted.stage}) after [${predecessors.join(', ')}]`);
+
+  // The same step in any client's overlay (same name and stage) is replaced by the library task
+  const sameStep = (t: CustomTask) =>
+    t.name.trim().toLowerCase() === custom.name.trim().toLowerCase() && t.stage === custom.stage;
+
+  for (const [client, list] of Object.entries(overlays)) {
+    const replaced = new Set(list.filter((t) => (client === clientName && t.id === taskId) || sameStep(t)).map((t) => t.id));
+    if (replaced.size === 0) continue;
+
+    overlays[client] = list.filter((t) => !replaced.has(t.id));
+    for (const oldId of replaced) {
+      changes.push(`${client}: remove ${oldId} (now ${id})`);
+    }
+
+    for (const t of overlays[client]) {
+      const rewritten = t.predecessors.map((p) => (replaced.has(p) ? id : p));
+      if (rewritten.join() !== t.predecessors.join()) {
+        changes.push(`${client}: ${t.id} predecessors [${t.predecessors.join(', ')}] → [${rewritten.join(', ')}]`);
+        t.predecessors = rewritten;
+      }
+      if (t.parent_id && replaced.has(t.parent_id)) {
+        changes.push(`${client}: ${t.id} parent_id ${t.parent_id} → ${id}`);
+        t.parent_id = id;
+      }
+      if (t.insert_before && replaced.has(t.insert_before)) {
+        changes.push(`${client}: ${t.id} insert_before ${t.insert_before} → ${id}`);
+        t.insert_before = id;
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const version = manifest.version + 1;
+  const description = `Promoted ${clientName} ${taskId} to library task ${id}`;
+  changes.push(`library.json: v${manifest.version} → v${version} (${description})`);
+  return {
+    promoted,
+    tasks,
+    clientTasks: overlays,
+    manifest: { version, migrations: [...manifest.migrations, { to: version, description }] },
+    changes,
+  };
+}
+
+// Helper function to check if task should be included based on decision
+function shouldIncludeTask(
+  task: Task,
+  decisions: { [key: string]: ClientDecision }
+): boolean {
+  if (!task.decision_id) {
+    return true;
+  }
+
+  // Runtime conditions are always included
+  if (task.decision_id.startsWith('C-')) {
+    return true;
+  }
+
+  const clientChoices = selectedOutcomes(decisions[task.decision_id]);
+  if (clientChoices.length === 0) {
+    return false;
+  }
+
+  // Handle multiple valid outcomes (comma-separated in decision_outcome)
+  if (task.decision_outcome && task.decision_outcome.includes(',')) {
+    const validOutcomes = task.decision_outcome.split(',').map((o) => o.trim());
+    return clientChoices.some((choice) => validOutcomes.includes(choice));
+  }
+
+  // Multi-select answers include the task when any selected outcome matches
+  return clientChoices.some((choice) => choice === task.decision_outcome);
+}
+
+// Helper function to find closest included ancestor
+function findClosestIncludedAncestor(
+  task: Task,
+  allTasks: Task[],
+  includedTaskIds: Set<string>
+): string | null {
+  const visited = new Set<string>();
+  const queue = [...task.predecessors];
+
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+
+    if (visited.has(currentId)) continue;
+    visited.add(currentId);
+
+    if (includedTaskIds.has(currentId)) {
+      return currentId;
+    }
+
+    const currentTask = allTasks.find((t) => t.id === currentId);
+    if (currentTask && currentTask.predecessors) {
+      queue.push(...currentTask.predecessors);
+    }
+  }
+
+  return null;
+}
+
+interface LoopPair {
+  key: string;
+  start: Task;
+  end: Task;
+  body: Set<string>;
+  bodyStart: string | null;
+}
+
+interface LoopPairing {
+  pairs: LoopPair[];
+  issues: string[];
+}
+
+// Predecessors of each task within a task set, re-linked through excluded tasks
+function resolvePredecessorMap(tasks: Task[], allTasks: Task[]): Map<string, string[]> {
+  const includedTaskIds = new Set(tasks.map((t) => t.id));
+  const predecessorMap = new Map<string, string[]>();
+
+  for (const task of tasks) {
+    let validPredecessors = (task.predecessors || []).filter((pred) => includedTaskIds.has(pred));
+    if (validPredecessors.length === 0 && task.predecessors && task.predecessors.length > 0) {
+      const closestAncestor = findClosestIncludedAncestor(task, allTasks, includedTaskIds);
+      if (closestAncestor) {
+        validPredecessors = [closestAncestor];
+      }
+    }
+    predecessorMap.set(task.id, validPredecessors);
+  }
+
+  return predecessorMap;
+}
+
+// Breadth-first walk over an adjacency map, returning ids in visit order (excluding the origin)
+function walkGraph(fromId: string, adjacency: Map<string, string[]>): string[] {
+  const visited = new Set<string>([fromId]);
+  const order: string[] = [];
+  const queue = [...(adjacency.get(fromId) || [])];
+
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    if (visited.has(currentId)) continue;
+    visited.add(currentId);
+    order.push(currentId);
+    queue.push(...(adjacency.get(currentId) || []));
+  }
+
+  return order;
+}
+
+/**
+ * Match Loop-Start and Loop-End tasks by `loop_key`.
+ *
+ * Each Loop-End is paired with the nearest upstream Loop-Start that shares its
+ * key, so the same key may be reused by nested or sequential loops. Loops may
+ * nest but not overlap; unmatched, mis-nested and crossing pairs are reported
+ * as issues instead of being paired.
+ */
+function pairLoops(
+  tasks: Task[],
+  allTasks: Task[],
+  predecessorMap: Map<string, string[]> = resolvePredecessorMap(tasks, allTasks)
+): LoopPairing {
+  const successorMap = new Map<string, string[]>();
+  for (const [taskId, preds] of predecessorMap) {
+    for (const pred of preds) {
+      successorMap.set(pred, [...(successorMap.get(pred) || []), taskId]);
+    }
+  }
+
+  const starts = tasks.filter((t) => t.type === 'Loop-Start');
+  const ends = tasks.filter((t) => t.type === 'Loop-End');
+  const pairedStartIds = new Set<string>();
+  const pairs: LoopPair[] = [];
+  const issues: string[] = [];
+
+  for (const end of ends) {
+    if (!end.loop_key) {
+      issues.push(`⚠️ ${end.id} Loop-End has no loop_key - cannot be matched to a Loop-Start`);
+      continue;
+    }
+
+    const candidates = starts.filter((s) => s.loop_key === end.loop_key && !pairedStartIds.has(s.id));
+    if (candidates.length === 0) {
+      issues.push(`⚠️ ${end.id} Loop-End for loop "${end.loop_key}" has no matching Loop-Start`);
+      continue;
+    }
+
+    // Nearest upstream start wins, which keeps same-key nested loops paired inside-out
+    const upstream = walkGraph(end.id, predecessorMap);
+    const start = upstream
+      .map((id) => candidates.find((s) => s.id === id))
+      .find((s): s is Task => !!s);
+
+    if (!start) {
+      issues.push(
+        `⚠️ ${end.id} closes loop "${end.loop_key}" but Loop-Start ${candidates.map((s) => s.id).join(', ')} does not precede it - mis-nested loop`
+      );
+      continue;
+    }
+
+    const downstream = new Set(walkGraph(start.id, successorMap));
+    const body = new Set([start.id, end.id, ...upstream.filter((id) => downstream.has(id))]);
+
+    // First task after the Loop-Start, where each iteration begins again
+    const bodyStart = tasks.find((t) => predecessorMap.get(t.id)?.includes(start.id))?.id || null;
+
+    pairedStartIds.add(start.id);
+    pairs.push({ key: end.loop_key, start, end, body, bodyStart });
+  }
+
+  for (const start of starts) {
+    if (!pairedStartIds.has(start.id)) {
+      issues.push(`⚠️ ${start.id} Loop-Start for loop "${start.loop_key || '(no loop_key)'}" has no matching Loop-End`);
+    }
+  }
+
+  // Loops must either be disjoint or fully nested
+  const conflicting = new Set<LoopPair>();
+  pairs.forEach((pair, index) => {
+    for (const other of pairs.slice(index + 1)) {
+      const shared = [...pair.body].filter((id) => other.body.has(id));
+      if (shared.length === 0) continue;
+      if ([...pair.body].every((id) => other.body.has(id))) continue;
+      if ([...other.body].every((id) => pair.body.has(id))) continue;
+
+      const describe = (p: LoopPair) => `"${p.key}" (${p.start.id} → ${p.end.id})`;
+      const [inner, outer] = other.body.has(pair.start.id) ? [pair, other] : [other, pair];
+      if (outer.body.has(inner.start.id) && !outer.body.has(inner.end.id) && !inner.body.has(outer.start.id)) {
+        issues.push(`⚠️ Loop ${describe(inner)} starts inside loop ${describe(outer)} but ends outside it - mis-nested loop`);
+      } else {
+        issues.push(`⚠️ Loops ${describe(pair)} and ${describe(other)} cross - they share ${shared.join(', ')} without one containing the other`);
+      }
+      conflicting.add(pair);
+      conflicting.add(other);
+    }
+  });
+
+  const validPairs = pairs.filter((pair) => !conflicting.has(pair));
+  return { pairs: validPairs, issues };
+}
+
+// Generate improved Mermaid diagram
+function generateMermaidDiagram(
+  filteredTasks: Task[],
+  allTasks: Task[],
+  decisions: { [key: string]: ClientDecision },
+  stageOrder: string[]
+): string {
+  let mermaid = 'graph TD\n';
+
+  // Add styling
+  mermaid += '  classDef macroStyle fill:#e1f5ff,stroke:#0288d1,stroke-width:3px\n';
+  mermaid += '  classDef microStyle fill:#fff9e1,stroke:#fbc02d,stroke-width:2px\n';
+  mermaid += '  classDef loopStyle fill:#f3e5f5,stroke:#8e24aa,stroke-width:2px\n';
+  mermaid += '  classDef exceptionStyle fill:#ffebee,stroke:#d32f2f,stroke-width:2px,stroke-dasharray: 5 5\n';
+  mermaid += '  classDef decisionStyle fill:#fff3e0,stroke:#f57c00,stroke-width:2px\n\n';
+
+  const includedTaskIds = new Set(filteredTasks.map((t) => t.id));
+
+  // Group tasks by stage for subgraphs
+  const tasksByStage: { [stage: string]: Task[] } = {};
+  for (const task of filteredTasks) {
+    if (!tasksByStage[task.stage]) {
+      tasksByStage[task.stage] = [];
+    }
+    tasksByStage[task.stage].push(task);
+  }
+
+  // Track decision nodes we've created
+  const createdDecisionNodes = new Set<string>();
+
+  // Generate nodes with subgraphs
+
+  for (const stage of stageOrder) {
+    if (!tasksByStage[stage]) continue;
+
+    const stageId = stage.replace(/\s+/g, '_').replace(/&/g, 'and');
+    mermaid += `\n  subgraph ${stageId}["${stage}"]\n`;
+
+    for (const task of tasksByStage[stage]) {
+      const nodeId = task.id.replace(/-/g, '_');
+      const label = `${task.id}:<br/>${task.name}`;
+
+      let nodeShape = '';
+      let styleClass = '';
+
+      if (task.type === 'Macro') {
+        nodeShape = `${nodeId}[["${label}"]]`;
+        styleClass = 'macroStyle';
+      } else if (task.type === 'Loop-Start' || task.type === 'Loop-End') {
+        nodeShape = `${nodeId}(("${label}"))`;
+        styleClass = 'loopStyle';
+      } else {
+        nodeShape = `${nodeId}["${label}"]`;
+        styleClass = task.edge_type === 'exception' ? 'exceptionStyle' : 'microStyle';
+      }
+
+      mermaid += `    ${nodeShape}\n`;
+      if (styleClass) {
+        mermaid += `    class ${nodeId} ${styleClass}\n`;
+      }
+    }
+
+    mermaid += `  end\n`;
+  }
+
+  mermaid += '\n';
+
+  // Check if Q-SEC-01 is set to "Both (material-dependent)"
+  const secDecision = decisions['Q-SEC-01'];
+  const isBothPaths = selectedOutcomes(secDecision).includes('Both (material-dependent)');
+
+  // Special handling for DISP-017 routing when "Both" is selected
+  if (isBothPaths && includedTaskIds.has('DISP-017')) {
+    const disp017NodeId = 'DISP_017';
+    const decisionNodeId = 'DEC_C_SEC_01';
+
+    // Add C-SEC-01 decision diamond
+    mermaid += `  ${decisionNodeId}{Is container sealed?}\n`;
+    mermaid += `  class ${decisionNodeId} decisionStyle\n`;
+    mermaid += `  ${disp017NodeId} --> ${decisionNodeId}\n`;
+
+    // Route to sealed path
+    if (includedTaskIds.has('DISP-SL-001')) {
+      mermaid += `  ${decisionNodeId} -->|Yes → Sealed| DISP_SL_001\n`;
+    }
+
+    // Route to weighing path
+    if (includedTaskIds.has('DISP-L-001')) {
+      mermaid += `  ${decisionNodeId} -->|No → Weighing| DISP_L_001\n`;
+    }
+
+    createdDecisionNodes.add(decisionNodeId);
+  }
+
+  // Generate edges with smart linking
+  for (const task of filteredTasks) {
+    const nodeId = task.id.replace(/-/g, '_');
+
+    // Skip DISP-L-001 and DISP-SL-001 predecessors if "Both" path - already handled above
+    if (isBothPaths && (task.id === 'DISP-L-001' || task.id === 'DISP-SL-001')) {
+      continue;
+    }
+
+    if (task.predecessors && task.predecessors.length > 0) {
+      // Filter predecessors to only those in the workflow
+      let validPredecessors = task.predecessors.filter((pred) => includedTaskIds.has(pred));
+
+      // If NO valid predecessors, find closest ancestor
+      if (validPredecessors.length === 0) {
+        const closestAncestor = findClosestIncludedAncestor(task, allTasks, includedTaskIds);
+        if (closestAncestor) {
+          validPredecessors = [closestAncestor];
+        }
+      }
+
+      // Add edges from valid predecessors
+      for (const pred of validPredecessors) {
+        const predId = pred.replace(/-/g, '_');
+
+        // Check if this edge needs a decision node
+        if (task.guard_condition && task.decision_id && task.decision_id.startsWith('C-')) {
+          // Runtime condition - create decision diamond
+          const decisionNodeId = `DEC_${task.id.replace(/-/g, '_')}`;
+
+          if (!createdDecisionNodes.has(decisionNodeId)) {
+            // Extract simple condition label
+            let conditionLabel = task.guard_condition;
+            if (conditionLabel.length > 40) {
+              conditionLabel = task.decision_id; // Use decision ID if too long
+            }
+
+            mermaid += `  ${decisionNodeId}{${conditionLabel}}\n`;
+            mermaid += `  class ${decisionNodeId} decisionStyle\n`;
+            mermaid += `  ${predId} --> ${decisionNodeId}\n`;
+
+            createdDecisionNodes.add(decisionNodeId);
+          }
+
+          // Determine edge label based on outcome
+          const edgeLabel = task.decision_outcome || 'Yes';
+          const edgeStyle = task.edge_type === 'exception' ? '-.->' : '-->';
+          mermaid += `  ${decisionNodeId} ${edgeStyle}|${edgeLabel}| ${nodeId}\n`;
+        } else {
+          // Regular edge
+          const edgeStyle = task.edge_type === 'exception' ? '-.->|exception|' : '-->';
+          mermaid += `  ${predId} ${edgeStyle} ${nodeId}\n`;
+        }
+      }
+    }
+
+  }
+
+  // Handle loop back edges
+  for (const loop of pairLoops(filteredTasks, allTasks).pairs) {
+    if (!loop.bodyStart || !loop.end.loop_exit_condition) continue;
+
+    const bodyStartNodeId = loop.bodyStart.replace(/-/g, '_');
+    const loopCondition = loop.end.loop_exit_condition.replace(/RunningTotal >= Target/gi, 'Target not reached');
+
+    mermaid += `  ${loop.end.id.replace(/-/g, '_')} -.->|${loopCondition}| ${bodyStartNodeId}\n`;
+  }
+
+  return mermaid;
+}
+
+// Shared theme for the styled (client-facing) diagrams
+const BEAUTIFUL_HEADER = `%%{init: {'theme':'base', 'themeVariables': { 'primaryColor':'#e1f5ff','primaryTextColor':'#01579b','primaryBorderColor':'#0288d1','lineColor':'#546e7a','secondaryColor':'#fff9e1','tertiaryColor':'#f3e5f5'}}}%%\n`;
+
+const BEAUTIFUL_CLASS_DEFS = [
+  'classDef macroStyle fill:#0288d1,stroke:#01579b,stroke-width:4px,color:#ffffff,font-weight:bold,font-size:16px',
+  'classDef microStyle fill:#fff9e1,stroke:#f9a825,stroke-width:2px,color:#3e2723,font-size:14px',
+  'classDef loopStyle fill:#8e24aa,stroke:#4a148c,stroke-width:3px,color:#ffffff,font-weight:bold,font-size:14px',
+  'classDef exceptionStyle fill:#ffcdd2,stroke:#c62828,stroke-width:3px,stroke-dasharray:8 4,color:#b71c1c,font-weight:bold',
+  'classDef decisionStyle fill:#fff3e0,stroke:#e65100,stroke-width:3px,color:#e65100,font-weight:bold',
+  'classDef convergeStyle fill:#c8e6c9,stroke:#2e7d32,stroke-width:3px,color:#1b5e20,font-weight:bold',
+  'classDef dualPathStyle fill:#e1bee7,stroke:#6a1b9a,stroke-width:3px,color:#4a148c,font-weight:bold',
+  'classDef startStyle fill:#4caf50,stroke:#2e7d32,stroke-width:4px,color:#ffffff,font-weight:bold,font-size:18px',
+  'classDef assumedStyle stroke:#ff6f00,stroke-width:3px,stroke-dasharray:6 3',
+  'classDef customStyle fill:#e0f2f1,stroke:#00796b,stroke-width:3px,stroke-dasharray:4 2,color:#004d40',
+];
+
+// Appended to diff diagrams only
+const DIFF_CLASS_DEFS = [
+  'classDef addedStyle fill:#c8e6c9,stroke:#2e7d32,stroke-width:4px,color:#1b5e20',
+  'classDef removedStyle fill:#ffcdd2,stroke:#c62828,stroke-width:4px,stroke-dasharray:6 3,color:#b71c1c',
+];
+
+// Icon per edge type, used as a visual hint in node labels
+const EDGE_TYPE_ICONS: { [edgeType: string]: string } = {
+  control: '▶️',
+  data: '📊',
+  exception: '⚠️',
+  approval: '✅',
+  integration: '🔗',
+  timer: '⏱️',
+  transfer: '🚚',
+  measurement: '⚖️',
+};
+
+// A titled group of tasks rendered between its own START and COMPLETE terminals
+interface DiagramSection {
+  title: string;
+  tasks: Task[];
+}
+
+interface DiagramEdge {
+  from: string;
+  to: string;
+  arrow: '-->' | '-.->' | '==>';
+  label?: string;
+  loopBack?: boolean;
+}
+
+function toNodeId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+// Escape characters that would break a quoted Mermaid label
+function escapeMermaidText(text: string): string {
+  return text
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;')
+    .replace(/\|/g, '#124;');
+}
+
+// Break a label into lines of roughly `width` characters
+function wrapLabel(text: string, width = 26): string {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of escapeMermaidText(text).split(/\s+/)) {
+    if (current && current.length + word.length + 1 > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines.join('<br/>');
+}
+
+function isRuntimeCondition(task: Task): boolean {
+  return !!(task.guard_condition && task.decision_id && task.decision_id.startsWith('C-'));
+}
+
+interface EdgeDiamond {
+  // Runtime conditions ask a question; Practice routes pick between included sibling paths
+  kind: 'runtime' | 'route';
+  decision_id: string;
+}
+
+// The decision diamond an edge from `pred` into `task` passes through, if any. Each runtime condition
+// gets one per predecessor; several included siblings gated by the same Practice decision share a route.
+// Siblings are found through the graph's resolved predecessors, so relinked tasks count too.
+function edgeDiamond(
+  task: Task,
+  pred: string,
+  sectionTasks: Task[],
+  predecessorMap: Map<string, string[]>
+): EdgeDiamond | null {
+  if (isRuntimeCondition(task)) {
+    return { kind: 'runtime', decision_id: task.decision_id! };
+  }
+  if (task.type !== 'Macro' && task.decision_id && !task.decision_id.startsWith('C-')) {
+    const siblings = sectionTasks.filter(
+      (t) => t.type !== 'Macro' && t.decision_id === task.decision_id && !!predecessorMap.get(t.id)?.includes(pred)
+    );
+    if (siblings.length > 1) {
+      return { kind: 'route', decision_id: task.decision_id };
+    }
+  }
+  return null;
+}
+
+/**
+ * Render a styled Mermaid diagram from a resolved workflow graph.
+ *
+ * Node shapes and colours come from task type and edge type, runtime conditions
+ * become decision diamonds, Practice decisions that leave several sibling paths
+ * included become a routing diamond, and each Loop-End gets a back edge to the
+ * start of its body. Every section is framed by START/COMPLETE terminals and
+ * consecutive sections are chained together.
+ */
+function generateBeautifulMermaidDiagram(graph: WorkflowGraph, decisions: { [key: string]: ClientDecision }): string {
+  const questionFor = (decisionId: string): string => graph.questions[decisionId] || decisionId;
+  const assumed = new Set(graph.assumed);
+  const sections = graphSections(graph);
+  const predecessorMap = graphPredecessors(graph);
+  const nodeById = new Map(graph.nodes.map((t) => [t.id, t]));
+
+  let mermaid = BEAUTIFUL_HEADER;
+  mermaid += `graph TB\n`;
+  mermaid += BEAUTIFUL_CLASS_DEFS.map((def) => `  ${def}\n`).join('') + '\n';
+
+  let previousComplete: string | null = null;
+
+  sections.forEach((section, sectionIndex) => {
+    const suffix = sections.length > 1 ? `_${sectionIndex + 1}` : '';
+    const startId = `START${suffix}`;
+    const completeId = `COMPLETE${suffix}`;
+    const title = section.title.toUpperCase();
+    const includedTaskIds = new Set(section.tasks.map((t) => t.id));
+
+    mermaid += `  ${startId}(["🏁 START ${escapeMermaidText(title)}"])\n`;
+    mermaid += `  class ${startId} startStyle\n`;
+    if (previousComplete) {
+      mermaid += `  ${previousComplete} ==> ${startId}\n`;
+    }
+    mermaid += '\n';
+
+    // ----- Nodes -----
+    for (const task of section.tasks) {
+      const nodeId = toNodeId(task.id);
+      const icon = EDGE_TYPE_ICONS[task.edge_type] || '▶️';
+      let label = wrapLabel(task.name);
+      if (isCustomTask(task)) {
+        label += '<br/>✳️ Client-specific';
+      }
+
+      // Show which Practice answer pulled this task in
+      if (task.decision_id && !task.decision_id.startsWith('C-')) {
+        const outcome = formatSelectedOutcome(decisions[task.decision_id]);
+        if (outcome) {
+          label += `<br/>⚙️ ${escapeMermaidText(outcome)}`;
+        }
+        if (assumed.has(task.decision_id)) {
+          label += ' (assumed)';
+        }
+      }
+
+      if (task.type === 'Macro') {
+        mermaid += `  ${nodeId}["📋 ${wrapLabel(task.name.toUpperCase())}"]\n`;
+        mermaid += `  class ${nodeId} macroStyle\n`;
+      } else if (task.type === 'Loop-Start' || task.type === 'Loop-End') {
+        mermaid += `  ${nodeId}(("🔄 ${label}"))\n`;
+        mermaid += `  class ${nodeId} loopStyle\n`;
+      } else if (task.edge_type === 'exception') {
+        mermaid += `  ${nodeId}["${icon} ${label}"]\n`;
+        mermaid += `  class ${nodeId} exceptionStyle\n`;
+      } else if (task.edge_type === 'approval') {
+        mermaid += `  ${nodeId}["${icon} ${label}"]\n`;
+        mermaid += `  class ${nodeId} convergeStyle\n`;
+      } else {
+        mermaid += `  ${nodeId}["${icon} ${label}"]\n`;
+        mermaid += `  class ${nodeId} microStyle\n`;
+      }
+
+      // Client-specific steps stand out from the base library
+      if (isCustomTask(task)) {
+        mermaid += `  class ${nodeId} customStyle\n`;
+      }
+
+      // Tasks included only because of a recommended default are flagged for review
+      if (task.decision_id && assumed.has(task.decision_id)) {
+        mermaid += `  class ${nodeId} assumedStyle\n`;
+      }
+    }
+    mermaid += '\n';
+
+    // ----- Edges -----
+    const edges: DiagramEdge[] = [];
+    const createdDecisionNodes = new Set<string>();
+
+    const addDecisionNode = (decisionNodeId: string, predNodeId: string, text: string, style: string) => {
+      if (createdDecisionNodes.has(decisionNodeId)) return;
+      mermaid += `  ${decisionNodeId}{"${text}"}\n`;
+      mermaid += `  class ${decisionNodeId} ${style}\n`;
+      edges.push({ from: predNodeId, to: decisionNodeId, arrow: '-->' });
+      createdDecisionNodes.add(decisionNodeId);
+    };
+
+    for (const task of section.tasks) {
+      const nodeId = toNodeId(task.id);
+      const validPredecessors = predecessorMap.get(task.id) || [];
+
+      // Roots hang off their parent macro, or the section START
+      if (validPredecessors.length === 0) {
+        if (task.parent_id && task.parent_id !== task.id && includedTaskIds.has(task.parent_id)) {
+          edges.push({ from: toNodeId(task.parent_id), to: nodeId, arrow: '-->' });
+        } else {
+          edges.push({ from: startId, to: nodeId, arrow: '-->' });
+        }
+        continue;
+      }
+
+      for (const pred of validPredecessors) {
+        const predNodeId = toNodeId(pred);
+        const arrow = task.edge_type === 'exception' ? '-.->' : '-->';
+        const diamond = edgeDiamond(task, pred, section.tasks, predecessorMap);
+
+        if (diamond?.kind === 'runtime') {
+          // Sibling outcomes of the condition share the diamond
+          const decisionNodeId = `DEC_${predNodeId}_${toNodeId(diamond.decision_id)}`;
+          addDecisionNode(decisionNodeId, predNodeId, `❓ ${wrapLabel(questionFor(diamond.decision_id))}`, 'decisionStyle');
+          edges.push({ from: decisionNodeId, to: nodeId, arrow, label: task.decision_outcome || 'Yes' });
+          continue;
+        }
+
+        if (diamond?.kind === 'route') {
+          const routeNodeId = `ROUTE_${predNodeId}_${toNodeId(diamond.decision_id)}`;
+          let outcome = formatSelectedOutcome(decisions[diamond.decision_id]) || questionFor(diamond.decision_id);
+          if (assumed.has(diamond.decision_id)) {
+            outcome += ' (assumed)';
+          }
+          addDecisionNode(routeNodeId, predNodeId, `🔀 ${wrapLabel(outcome)}`, 'dualPathStyle');
+          edges.push({ from: routeNodeId, to: nodeId, arrow: '-->', label: task.name });
+          continue;
+        }
+
+        const isStageHandoff = task.type === 'Macro' && nodeById.get(pred)?.type === 'Macro';
+        edges.push({ from: predNodeId, to: nodeId, arrow: isStageHandoff ? '==>' : arrow });
+      }
+    }
+
+    // Loop back edges, paired by loop_key
+    for (const loop of pairLoops(section.tasks, graph.nodes, predecessorMap).pairs) {
+      if (!loop.bodyStart) continue;
+
+      const exitCondition = loop.end.loop_exit_condition || loop.start.loop_exit_condition;
+      edges.push({
+        from: toNodeId(loop.end.id),
+        to: toNodeId(loop.bodyStart),
+        arrow: '-.->',
+        label: exitCondition ? `🔁 repeat until ${exitCondition}` : '🔁 repeat',
+        loopBack: true,
+      });
+    }
+
+    mermaid += '\n';
+    for (const edge of edges) {
+      const label = edge.label ? `|"${escapeMermaidText(edge.label)}"|` : '';
+      mermaid += `  ${edge.from} ${edge.arrow}${label} ${edge.to}\n`;
+    }
+
+    // Paths ending in the final stage flow into COMPLETE; exception branches and macros are left open
+    const withOutgoing = new Set(edges.filter((e) => !e.loopBack).map((e) => e.from));
+    const finalStage = section.tasks.length > 0 ? section.tasks[section.tasks.length - 1].stage : '';
+    const openEnds = section.tasks.filter((t) => !withOutgoing.has(toNodeId(t.id)));
+    let sinks = openEnds.filter((t) => t.type !== 'Macro' && t.edge_type !== 'exception' && t.stage === finalStage);
+    if (sinks.length === 0) {
+      sinks = openEnds.filter((t) => t.type !== 'Macro' && t.edge_type !== 'exception');
+    }
+    if (sinks.length === 0) {
+      sinks = openEnds;
+    }
+
+    mermaid += `\n  ${completeId}(["🎉 ${escapeMermaidText(title)} COMPLETE"])\n`;
+    mermaid += `  class ${completeId} startStyle\n`;
+    if (section.tasks.length === 0) {
+      mermaid += `  ${startId} ==> ${completeId}\n`;
+    }
+    for (const sink of sinks) {
+      mermaid += `  ${toNodeId(sink.id)} ==> ${completeId}\n`;
+    }
+    mermaid += '\n';
+
+    previousComplete = completeId;
+  });
+
+  return mermaid;
+}
+
+// Everything validate_workflow reports for a set of answers: structural issues, then answers
+// given against an older library, which may no longer mean what they did
+function validateWorkflow(
+  allTasks: Task[],
+  stages: string[],
+  answers: { [key: string]: ClientDecision },
+  library: Decision[],
+  manifest: LibraryManifest
+): string[] {
+  const { applicable } = filterApplicableDecisions(answers, library);
+  const issues = validateWorkflowTasks(allTasks, stages, applicable);
+  issues.push(...findStaleAnswers(answers, library, manifest).map((s) => `⚠️ ${s} - run migrate_client`));
+  return issues;
+}
+
+// Structural issues in the workflow a set of answers produces ("⚠️" warnings, "ℹ️" info)
+function validateWorkflowTasks(
+  allTasks: Task[],
+  stages: string[],
+  decisions: { [key: string]: ClientDecision }
+): string[] {
+  const filteredTasks = allTasks.filter((task) => stages.includes(task.stage) && shouldIncludeTask(task, decisions));
+  const includedTaskIds = new Set(filteredTasks.map((t) => t.id));
+  const issues: string[] = [];
+
+  // Check for orphaned nodes
+  for (const task of filteredTasks) {
+    if (task.predecessors && task.predecessors.length > 0) {
+      const hasValidPredecessor = task.predecessors.some((pred) => includedTaskIds.has(pred));
+
+      if (!hasValidPredecessor) {
+        const closestAncestor = findClosestIncludedAncestor(task, allTasks, includedTaskIds);
+        if (!closestAncestor) {
+          issues.push(`⚠️ ${task.id} (${task.name}) has no valid predecessors - orphaned node`);
+        } else {
+          issues.push(`ℹ️ ${task.id} linked to distant ancestor ${closestAncestor} (immediate predecessors excluded)`);
+        }
+      }
+    }
+  }
+
+  // Check loop pairing: unmatched, crossing and mis-nested loops
+  issues.push(...pairLoops(filteredTasks, allTasks).issues);
+
+  return issues;
+}
+
+// Workshop progress for one stage or family
+interface ReadinessRow {
+  label: string;
+  // Practice decisions in scope that apply under the current answers
+  applicable: number;
+  answered: number;
+  missingRationale: number;
+  // Answers given to decisions whose applies_when conditions are not met
+  conflicts: number;
+  warnings: number;
+  info: number;
+}
+
+function assessReadiness(
+  label: string,
+  stages: string[],
+  answers: { [key: string]: ClientDecision },
+  library: Decision[],
+  manifest: LibraryManifest,
+  allTasks: Task[]
+): ReadinessRow {
+  const inScope = library.filter(
+    (d) => d.category === 'Practice' && stages.some((stage) => decisionAppliesToStage(d, stage))
+  );
+  const { applicable: counted } = filterApplicableDecisions(answers, library);
+  const applicable = inScope.filter((d) => isDecisionApplicable(d, counted, library));
+  const issues = validateWorkflow(allTasks, stages, answers, library, manifest);
+
+  return {
+    label,
+    applicable: applicable.length,
+    answered: applicable.filter((d) => counted[d.id]).length,
+    missingRationale: applicable.filter((d) => counted[d.id] && !counted[d.id].rationale.trim()).length,
+    conflicts: inScope.filter((d) => answers[d.id] && !counted[d.id]).length,
+    warnings: issues.filter((i) => i.startsWith('⚠️')).length,
+    info: issues.filter((i) => i.startsWith('ℹ️')).length,
+  };
+}
+
+function formatReadinessRow(row: ReadinessRow): string {
+  const answered =
+    row.applicable > 0
+      ? `${row.answered}/${row.applicable} (${Math.floor((row.answered / row.applicable) * 100)}%)`
+      : '-';
+  const validation =
+    row.warnings > 0 ? `⚠️ ${row.warnings} warning(s)` : `✅${row.info > 0 ? ` (${row.info} info)` : ''}`;
+  return `| ${row.label} | ${answered} | ${row.missingRationale} | ${row.conflicts} | ${validation} |`;
+}
+
+// Included tasks for a set of answers, one section per family in scope; families with nothing in scope are skipped
+function buildDiagramSections(
+  scope: WorkflowScope,
+  allTasks: Task[],
+  decisions: { [key: string]: ClientDecision }
+): DiagramSection[] {
+  const scopeStages = scope.sections.flatMap((section) => section.stages);
+  const filteredTasks = allTasks.filter((task) => scopeStages.includes(task.stage) && shouldIncludeTask(task, decisions));
+
+  return scope.sections
+    .map((section) => ({
+      title: section.title,
+      tasks: filteredTasks.filter((t) => section.stages.includes(t.stage)),
+    }))
+    .filter((section, _, all) => all.length === 1 || section.tasks.length > 0);
+}
+
+function computeWorkflowMetadata(
+  tasks: Task[],
+  decisions: { [key: string]: ClientDecision },
+  assumed: AssumedDecision[]
+): WorkflowMetadata {
+  return {
+    task_count: tasks.length,
+    decision_count: Object.keys(decisions).length - assumed.length,
+    macro_count: tasks.filter((t) => t.type === 'Macro').length,
+    loop_count: tasks.filter((t) => t.type.includes('Loop')).length,
+    assumed_decisions: assumed,
+  };
+}
+
+// The structure a diagram would have, for comparing two sets of answers without rendering
+interface WorkflowAnalysis {
+  tasks: Map<string, Task>;
+  // Task ID → distant ancestor it is linked to because its immediate predecessors are excluded
+  relinks: Map<string, string>;
+  // "A → B" for every edge between included tasks
+  edges: Set<string>;
+  loops: Set<string>;
+  // Diamond label → the decision it routes on and the task it follows
+  diamonds: Map<string, { decision_id: string; after: string }>;
+  metadata: WorkflowMetadata;
+}
+
+// Read off the graph a diagram is rendered from, with the renderer's own diamond and loop rules
+function analyzeWorkflow(
+  graph: WorkflowGraph,
+  decisions: { [key: string]: ClientDecision },
+  assumed: AssumedDecision[]
+): WorkflowAnalysis {
+  const predecessorMap = graphPredecessors(graph);
+  const loops = new Set<string>();
+  const diamonds: WorkflowAnalysis['diamonds'] = new Map();
+
+  for (const section of graphSections(graph)) {
+    for (const task of section.tasks) {
+      for (const pred of predecessorMap.get(task.id) || []) {
+        const diamond = edgeDiamond(task, pred, section.tasks, predecessorMap);
+        if (diamond) {
+          const icon = diamond.kind === 'runtime' ? '❓' : '🔀';
+          diamonds.set(`${icon} ${diamond.decision_id} after ${pred}`, { decision_id: diamond.decision_id, after: pred });
+        }
+      }
+    }
+
+    for (const loop of pairLoops(section.tasks, graph.nodes, predecessorMap).pairs) {
+      loops.add(`${loop.key} (${loop.start.id} → ${loop.end.id})`);
+    }
+  }
+
+  return {
+    tasks: new Map(graph.nodes.map((t) => [t.id, t])),
+    relinks: new Map(Object.entries(graph.relinks)),
+    edges: new Set(graph.edges.map(([from, to]) => `${from} → ${to}`)),
+    loops,
+    diamonds,
+    metadata: computeWorkflowMetadata(graph.nodes, decisions, assumed),
+  };
+}
+
+// Freeze the tasks, links and question texts a diagram is rendered from
+function buildWorkflowGraph(
+  sections: DiagramSection[],
+  allTasks: Task[],
+  library: Decision[],
+  assumed: Set<string>
+): WorkflowGraph {
+  const graph: WorkflowGraph = { sections: [], nodes: [], edges: [], relinks: {}, questions: {}, assumed: [...assumed] };
+
+  for (const section of sections) {
+    const predecessorMap = resolvePredecessorMap(section.tasks, allTasks);
+    graph.sections.push({ title: section.title, task_ids: section.tasks.map((t) => t.id) });
+
+    for (const task of section.tasks) {
+      graph.nodes.push(task);
+      const predecessors = predecessorMap.get(task.id) || [];
+      graph.edges.push(...predecessors.map((pred): [string, string] => [pred, task.id]));
+      if (predecessors.length === 1 && !task.predecessors.includes(predecessors[0])) {
+        graph.relinks[task.id] = predecessors[0];
+      }
+
+      const question = task.decision_id && library.find((d) => d.id === task.decision_id)?.question;
+      if (question) {
+        graph.questions[task.decision_id!] = question;
+      }
+    }
+  }
+
+  return graph;
+}
+
+function graphSections(graph: WorkflowGraph): DiagramSection[] {
+  const nodeById = new Map(graph.nodes.map((t) => [t.id, t]));
+  return graph.sections.map((section) => ({
+    title: section.title,
+    tasks: section.task_ids.map((id) => nodeById.get(id)!),
+  }));
+}
+
+function graphPredecessors(graph: WorkflowGraph): Map<string, string[]> {
+  const predecessors = new Map<string, string[]>(graph.nodes.map((t) => [t.id, []]));
+  for (const [from, to] of graph.edges) {
+    predecessors.get(to)?.push(from);
+  }
+  return predecessors;
+}
+
+// Library lint
+interface LintIssue {
+  file: string;
+  line: number;
+  id: string;
+  message: string;
+  context: string;
+}
+
+interface JsonLineIndex {
+  entryLine: (id: string, occurrence?: number) => number;
+  fieldLine: (id: string, field: string, occurrence?: number) => number;
+  text: (line: number) => string;
+}
+
+// Locate the line of each `"id": "..."` entry and of fields inside it, for line-level lint output
+function indexJsonLines(raw: string): JsonLineIndex {
+  const lines = raw.split('\n');
+  const idLines: { id: string; line: number }[] = [];
+
+  lines.forEach((text, index) => {
+    const match = text.match(/^\s*"id"\s*:\s*"([^"]*)"/);
+    if (match) {
+      idLines.push({ id: match[1], line: index + 1 });
+    }
+  });
+
+  // Line of the `occurrence`-th entry with this id (duplicates are counted from 0)
+  const entryLine = (id: string, occurrence = 0): number =>
+    idLines.filter((e) => e.id === id)[occurrence]?.line || 0;
+
+  // Line of `field` within the entry, falling back to the entry's id line
+  const fieldLine = (id: string, field: string, occurrence = 0): number => {
+    const start = entryLine(id, occurrence);
+    if (!start) return 0;
+
+    const next = idLines.find((e) => e.line > start)?.line || lines.length + 1;
+    for (let line = start; line < next; line++) {
+      if (new RegExp(`^\\s*"${field}"\\s*:`).test(lines[line - 1])) {
+        return line;
+      }
+    }
+    return start;
+  };
+
+  const text = (line: number): string => (line > 0 ? (lines[line - 1] || '').trim() : '');
+
+  return { entryLine, fieldLine, text };
+}
+
+// Strongly connected components of the predecessor graph (Tarjan)
+function findCycles(tasks: Task[]): string[][] {
+  const ids = new Set(tasks.map((t) => t.id));
+  const indexOf = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (id: string) => {
+    indexOf.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    const task = tasks.find((t) => t.id === id)!;
+    for (const pred of (task.predecessors || []).filter((p) => ids.has(p))) {
+      if (!indexOf.has(pred)) {
+        visit(pred);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(pred)!));
+      } else if (onStack.has(pred)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, indexOf.get(pred)!));
+      }
+    }
+
+    if (lowLink.get(id) === indexOf.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+
+      if (component.length > 1 || task.predecessors.includes(id)) {
+        cycles.push(component.reverse());
+      }
+    }
+  };
+
+  for (const task of tasks) {
+    if (!indexOf.has(task.id)) visit(task.id);
+  }
+
+  return cycles;
+}
+
+/**
+ * Check tasks.json and decisions.json for integrity problems that would
+ * otherwise fail silently during filtering and rendering.
+ */
+function lintLibrary(tasksRaw: string, decisionsRaw: string, registry: StageRegistry): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const taskLines = indexJsonLines(tasksRaw);
+  const decisionLines = indexJsonLines(decisionsRaw);
+
+  let tasks: Task[];
+  let decisions: Decision[];
+  try {
+    tasks = JSON.parse(tasksRaw);
+    decisions = JSON.parse(decisionsRaw);
+  } catch (error) {
+    return [
+      {
+        file: 'tasks.json / decisions.json',
+        line: 0,
+        id: '',
+        message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        context: '',
+      },
+    ];
+  }
+
+  const taskIssue = (task: Task, field: string, message: string, occurrence = 0) => {
+    const line = taskLines.fieldLine(task.id, field, occurrence);
+    issues.push({ file: 'tasks.json', line, id: task.id, message, context: taskLines.text(line) });
+  };
+  const decisionIssue = (decision: Decision, field: string, message: string, occurrence = 0) => {
+    const line = decisionLines.fieldLine(decision.id, field, occurrence);
+    issues.push({ file: 'decisions.json', line, id: decision.id, message, context: decisionLines.text(line) });
+  };
+
+  const knownStages = new Set(getStageOrder(registry));
+  const tasksById = new Map<string, Task>();
+  const decisionsById = new Map<string, Decision>();
+
+  // Duplicate IDs
+  const seenTasks = new Map<string, number>();
+  for (const task of tasks) {
+    const occurrence = seenTasks.get(task.id) || 0;
+    if (occurrence > 0) {
+      taskIssue(task, 'id', `Duplicate task ID (occurrence ${occurrence + 1})`, occurrence);
+    } else {
+      tasksById.set(task.id, task);
+    }
+    seenTasks.set(task.id, occurrence + 1);
+  }
+
+  const seenDecisions = new Map<string, number>();
+  for (const decision of decisions) {
+    const occurrence = seenDecisions.get(decision.id) || 0;
+    if (occurrence > 0) {
+      decisionIssue(decision, 'id', `Duplicate decision ID (occurrence ${occurrence + 1})`, occurrence);
+    } else {
+      decisionsById.set(decision.id, decision);
+    }
+    seenDecisions.set(decision.id, occurrence + 1);
+  }
+
+  // Unknown stages
+  for (const decision of decisions) {
+    const stages = decision.stage.split(';').map((s) => s.trim());
+    for (const stage of stages) {
+      if (stage !== GLOBAL_STAGE && !knownStages.has(stage)) {
+        decisionIssue(decision, 'stage', `Unknown stage "${stage}"`);
+      }
+    }
+  }
+
+  for (const task of tasksById.values()) {
+    if (!knownStages.has(task.stage)) {
+      taskIssue(task, 'stage', `Unknown stage "${task.stage}"`);
+    }
+
+    // Dangling predecessors
+    for (const pred of task.predecessors || []) {
+      if (!tasksById.has(pred)) {
+        taskIssue(task, 'predecessors', `Predecessor "${pred}" does not exist`);
+      }
+    }
+
+    // Parent must be a Macro
+    if (task.parent_id) {
+      const parent = tasksById.get(task.parent_id);
+      if (!parent) {
+        taskIssue(task, 'parent_id', `parent_id "${task.parent_id}" does not exist`);
+      } else if (parent.type !== 'Macro') {
+        taskIssue(task, 'parent_id', `parent_id "${task.parent_id}" is a ${parent.type} task, not a Macro`);
+      }
+    }
+
+    // Decision references and outcomes
+    if (task.decision_id) {
+      const decision = decisionsById.get(task.decision_id);
+      if (!decision) {
+        taskIssue(task, 'decision_id', `decision_id "${task.decision_id}" is not defined in decisions.json`);
+      } else if (task.decision_outcome && !decision.outcomes.includes(task.decision_outcome)) {
+        const outcomes = task.decision_outcome.split(',').map((o) => o.trim());
+        for (const outcome of outcomes) {
+          if (!decision.outcomes.includes(outcome)) {
+            taskIssue(
+              task,
+              'decision_outcome',
+              `decision_outcome "${outcome}" is not an outcome of ${decision.id} (valid: ${decision.outcomes.join(', ')})`
+            );
+          }
+        }
+      }
+    }
+  }
+
+  // Recommended outcomes must be valid outcomes
+  for (const decision of decisionsById.values()) {
+    if (decision.recommended && !decision.outcomes.includes(decision.recommended.outcome)) {
+      decisionIssue(
+        decision,
+        'recommended',
+        `recommended outcome "${decision.recommended.outcome}" is not an outcome (valid: ${decision.outcomes.join(', ')})`
+      );
+    }
+  }
+
+  // Applicability conditions must reference real decisions and outcomes
+  for (const decision of decisionsById.values()) {
+    for (const condition of decision.applies_when || []) {
+      const prerequisite = decisionsById.get(condition.decision_id);
+      if (!prerequisite) {
+        decisionIssue(decision, 'applies_when', `applies_when references undefined decision "${condition.decision_id}"`);
+      } else if (prerequisite.id === decision.id) {
+        decisionIssue(decision, 'applies_when', 'applies_when references the decision itself');
+      } else {
+        for (const outcome of condition.outcomes) {
+          if (!prerequisite.outcomes.includes(outcome)) {
+            decisionIssue(
+              decision,
+              'applies_when',
+              `applies_when outcome "${outcome}" is not an outcome of ${prerequisite.id} (valid: ${prerequisite.outcomes.join(', ')})`
+            );
+          }
+        }
+      }
+    }
+  }
+
+  // Predecessor cycles are only allowed inside a paired loop construct
+  const uniqueTasks = [...tasksById.values()];
+  const { pairs } = pairLoops(uniqueTasks, uniqueTasks);
+  for (const cycle of findCycles(uniqueTasks)) {
+    const insideLoop = pairs.some((pair) => cycle.every((id) => pair.body.has(id)));
+    if (!insideLoop) {
+      taskIssue(tasksById.get(cycle[0])!, 'predecessors', `Predecessor cycle outside a loop construct: ${cycle.join(' → ')} → ${cycle[0]}`);
+    }
+  }
+
+  return issues;
+}
+
+// Initialize MCP Server
+const server = new Server(
+  {
+    name: 'mes-workflow-server',
+    version: '3.0.0',
+  },
+  {
+    capabilities: {
+      tools: {},
+    },
+  }
+);
+
+// Site and product arguments of every client-scoped tool
+const scopeProperties = {
+  site: {
+    type: 'string',
+    description: 'Optional site of the client; site answers override the client\'s, the rest are inherited',
+  },
+  product: {
+    type: 'string',
+    description: 'Optional product line within the site (requires site)',
+  },
+};
+
+// Tool result for a client, site or product that does not resolve
+function scopeError(message: string) {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Error: ${message}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+// Error result when a change does not name its author; null otherwise
+function authorError(author: string | undefined) {
+  if (author?.trim()) {
+    return null;
+  }
+  return {
+    content: [
+      {
+        type: 'text',
+        text: 'Error: author is required; every change is recorded in the audit trail under its author',
+      },
+    ],
+    isError: true,
+  };
+}
+
+// List available tools
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  const registry = await loadStages();
+  const stageNames = getStageOrder(registry);
+  const familyNames = registry.families.map((f) => f.display_name).join(', ');
+  const { presets } = await loadPresets();
+
+  return {
+    tools: [
+      {
+        name: 'get_decisions',
+        description: `Get all decision questions for a manufacturing stage. Use this to understand what questions need to be answered for workflow configuration. Supports ${familyNames} stages.`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            stage: {
+              type: 'string',
+              description: `Stage name: ${registry.families
+                .map((f) => `${f.display_name} stages: ${f.stages.map((st) => `"${st.name}"`).join(', ')}`)
+                .join('; ')}; or "All" for all stages`,
+              enum: ['All', ...stageNames],
+            },
+            category: {
+              type: 'string',
+              description: 'Optional filter by category: "Practice" (configuration decisions) or "Runtime" (exception conditions)',
+            },
+          },
+        },
+      },
+      {
+        name: 'get_decision_details',
+        description: 'Get detailed information about a specific decision including its question, outcomes, and which tasks it affects.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            decision_id: {
+              type: 'string',
+              description: 'The decision ID (e.g., Q-ERP-01, Q-SEC-01 for Dispensing; GRAN-D-METHOD-001, GRAN-D-ENDPOINT-001 for Granulation)',
+            },
+          },
+          required: ['decision_id'],
+        },
+      },
+      {
+        name: 'save_client_decision',
+        description: 'Save a client\'s answer to a decision question. Always validate that the selected outcome matches one of the valid outcomes for that decision.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            decision_id: {
+              type: 'string',
+              description: 'The decision ID (e.g., Q-ERP-01)',
+            },
+            selected_outcome: {
+              anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+              description:
+                'The chosen outcome (must match one of the decision\'s valid outcomes exactly). Multi-select decisions accept an array of outcomes.',
+            },
+            rationale: {
+              type: 'string',
+              description: 'Optional explanation of why this choice was made',
+            },
+            author: {
+              type: 'string',
+              description: 'Who is making the change, recorded in the audit trail',
+            },
+          },
+          required: ['client_name', 'decision_id', 'selected_outcome', 'author'],
+        },
+      },
+      {
+        name: 'apply_preset',
+        description: `Seed a client's decisions from a named preset. Existing answers are kept unless overwrite is true. Presets: ${presets
+          .map((p) => `"${p.id}" (${p.name})`)
+          .join(', ')}`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            preset: {
+              type: 'string',
+              description: 'Preset ID',
+              enum: presets.map((p) => p.id),
+            },
+            overwrite: {
+              type: 'boolean',
+              description: 'Replace answers the client has already given (default: false)',
+            },
+            author: {
+              type: 'string',
+              description: 'Who is making the change, recorded in the audit trail',
+            },
+          },
+          required: ['client_name', 'preset', 'author'],
+        },
+      },
+      {
+        name: 'list_presets',
+        description: 'List the available decision presets and what they configure',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'add_custom_task',
+        description:
+          'Add a client-specific task on top of the base task library. Custom tasks are merged into filtering, validation and rendering for that client only, and are highlighted in diagrams.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            name: {
+              type: 'string',
+              description: 'Task name (e.g., "QA witness signature")',
+            },
+            stage: {
+              type: 'string',
+              description: 'Stage the task belongs to',
+              enum: stageNames,
+            },
+            predecessors: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'IDs of tasks this task follows (defaults to the insert_before target\'s predecessors)',
+            },
+            insert_before: {
+              type: 'string',
+              description: 'Task ID that should follow this task (e.g., DISP-017); its predecessors are rewired to this task',
+            },
+            parent_id: {
+              type: 'string',
+              description: 'Macro task this task belongs to',
+            },
+            type: {
+              type: 'string',
+              description: 'Task type (default: Micro)',
+              enum: ['Micro', 'Macro', 'Loop-Start', 'Loop-End'],
+            },
+            edge_type: {
+              type: 'string',
+              description: 'Edge type (default: control)',
+              enum: ['control', 'data', 'exception', 'approval', 'integration', 'timer', 'transfer', 'measurement'],
+            },
+            actor: {
+              type: 'string',
+              description: 'Who performs the task (e.g., QA)',
+            },
+            decision_id: {
+              type: 'string',
+              description: 'Optional decision that gates this task',
+            },
+            decision_outcome: {
+              type: 'string',
+              description: 'Outcome of decision_id that includes this task',
+            },
+            controls: {
+              type: 'string',
+              description: 'Controls enforced by the task',
+            },
+          },
+          required: ['client_name', 'name', 'stage'],
+        },
+      },
+      {
+        name: 'list_custom_tasks',
+        description: 'List the client-specific tasks layered over the base library for a client',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+          },
+          required: ['client_name'],
+        },
+      },
+      {
+        name: 'remove_custom_task',
+        description: 'Remove a client-specific task. Refuses if other custom tasks still depend on it.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            task_id: {
+              type: 'string',
+              description: 'Custom task ID (e.g., CUST-001)',
+            },
+          },
+          required: ['client_name', 'task_id'],
+        },
+      },
+      {
+        name: 'promote_custom_task',
+        description:
+          'Move a client\'s custom task into tasks.json under a new stable library ID, recording which client it came from. The same step in other clients\' overlays is replaced by the library task. Without confirm: true this only reports the changes.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client that owns the custom task',
+            },
+            task_id: {
+              type: 'string',
+              description: 'Custom task ID (e.g., CUST-001)',
+            },
+            new_id: {
+              type: 'string',
+              description: 'Library ID to assign (default: next free ID for the stage family, e.g. DISP-052)',
+            },
+            confirm: {
+              type: 'boolean',
+              description: 'Apply the promotion (default: false, report changes only)',
+            },
+          },
+          required: ['client_name', 'task_id'],
+        },
+      },
+      {
+        name: 'migrate_client',
+        description:
+          'Move a client\'s answers to the current library version by applying the outcome renames and decision ID remaps declared in library.json. Answers that cannot be migrated are reported for a human to re-decide. Without confirm: true this only reports the changes.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            confirm: {
+              type: 'boolean',
+              description: 'Apply the migration (default: false, report changes only)',
+            },
+            author: {
+              type: 'string',
+              description: 'Who is making the change, recorded in the audit trail',
+            },
+          },
+          required: ['client_name', 'author'],
+        },
+      },
+      {
+        name: 'propose_decisions',
+        description: 'Submit draft answers for approval (draft → proposed).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            decision_ids: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Decisions to propose (default: every draft answer)',
+            },
+            author: {
+              type: 'string',
+              description: 'Who is proposing, recorded in the audit trail',
+            },
+          },
+          required: ['client_name', 'author'],
+        },
+      },
+      {
+        name: 'approve_decisions',
+        description:
+          'Approve proposed answers (proposed → approved) or pending change requests. Approved answers are locked against save_client_decision and apply_preset.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            decision_ids: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Decisions to approve (default: every proposed answer and pending change request)',
+            },
+            approver: {
+              type: 'string',
+              description: 'Identity of the approver',
+            },
+            comment: {
+              type: 'string',
+              description: 'Approval comment',
+            },
+          },
+          required: ['client_name', 'approver', 'comment'],
+        },
+      },
+      {
+        name: 'reject_decisions',
+        description: 'Send proposed answers back to draft, or withdraw pending change requests on approved answers.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            decision_ids: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Decisions to reject',
+            },
+            reviewer: {
+              type: 'string',
+              description: 'Identity of the reviewer',
+            },
+            comment: {
+              type: 'string',
+              description: 'Reason for rejection',
+            },
+          },
+          required: ['client_name', 'decision_ids', 'reviewer', 'comment'],
+        },
+      },
+      {
+        name: 'request_decision_change',
+        description:
+          'Request a change to an approved (locked) answer. The approved answer stays in force until the change request is approved with approve_decisions.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            decision_id: {
+              type: 'string',
+              description: 'The approved decision to change',
+            },
+            selected_outcome: {
+              anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+              description: 'The requested outcome (array for multi-select decisions)',
+            },
+            reason: {
+              type: 'string',
+              description: 'Why the change is needed',
+            },
+            author: {
+              type: 'string',
+              description: 'Who is requesting the change',
+            },
+          },
+          required: ['client_name', 'decision_id', 'selected_outcome', 'reason', 'author'],
+        },
+      },
+      {
+        name: 'get_decision_history',
+        description:
+          'Show the audit trail of changes to a client\'s decisions (who, old value, new value, when, why) and check the log\'s hash chain for tampering.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            decision_id: {
+              type: 'string',
+              description: 'Optional decision ID to limit the history to',
+            },
+          },
+          required: ['client_name'],
+        },
+      },
+      {
+        name: 'export_questionnaire',
+        description:
+          'Write every Practice decision to a CSV questionnaire (question, valid outcomes, stage, affects, notes, blank answer and rationale columns) for decision workshops. Fill in the answer column and load it back with import_client_decisions.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Optional client; the CSV goes to the client\'s export folder with existing answers listed for reference',
+            },
+            ...scopeProperties,
+            stage: {
+              type: 'string',
+              description: 'Optional stage filter',
+              enum: stageNames,
+            },
+          },
+        },
+      },
+      {
+        name: 'import_client_decisions',
+        description:
+          'Load answers from a questionnaire CSV (as written by export_questionnaire). Every row is validated against the decision\'s outcomes; errors are reported per row and all valid rows are saved together as drafts.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            file_path: {
+              type: 'string',
+              description: 'Path to the CSV file inside the exports folder (relative paths are resolved against it)',
+            },
+            author: {
+              type: 'string',
+              description: 'Who is importing, recorded in the audit trail',
+            },
+          },
+          required: ['client_name', 'file_path', 'author'],
+        },
+      },
+      {
+        name: 'get_client_decisions',
+        description: 'Get all decisions already answered by a client. Use this to check what has been configured and what still needs to be answered.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+          },
+          required: ['client_name'],
+        },
+      },
+      {
+        name: 'list_clients',
+        description: 'Get a list of all clients that have been configured in the system.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            include_archived: {
+              type: 'boolean',
+              description: 'Also list archived clients (default: false)',
+            },
+          },
+        },
+      },
+      {
+        name: 'switch_workspace',
+        description: 'Switch every tool to another named workspace - a separate data and exports folder with its own clients - or create one. The task and decision library of a new workspace is copied from the default workspace.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Workspace name, or "default" for the data and exports folders the server was started with',
+            },
+            create: {
+              type: 'boolean',
+              description: 'Create the workspace if it does not exist (default: false)',
+            },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'list_workspaces',
+        description: 'List the available workspaces with their folders and client counts, marking the active one',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'add_site',
+        description: 'Register a site (plant) under a client, optionally with product lines. Sites inherit the client\'s decisions and can override them with save_client_decision.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            site: {
+              type: 'string',
+              description: 'Site name (e.g., "Plant B")',
+            },
+            products: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional product lines to register within the site (added to any already registered)',
+            },
+          },
+          required: ['client_name', 'site'],
+        },
+      },
+      {
+        name: 'clear_decision_override',
+        description: 'Remove a site or product override so the decision is inherited again',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            site: {
+              type: 'string',
+              description: 'Site holding the override',
+            },
+            product: {
+              type: 'string',
+              description: 'Product holding the override (optional)',
+            },
+            decision_id: {
+              type: 'string',
+              description: 'The decision ID',
+            },
+            author: {
+              type: 'string',
+              description: 'Who is making the change, recorded in the audit trail',
+            },
+          },
+          required: ['client_name', 'site', 'decision_id', 'author'],
+        },
+      },
+      {
+        name: 'clone_client',
+        description:
+          'Start a new client from an existing one: copies decisions (as drafts, approvals cleared) and custom tasks. Workflows and exports are not copied.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            source_client: {
+              type: 'string',
+              description: 'Existing client to copy from',
+            },
+            new_client: {
+              type: 'string',
+              description: 'Name of the new client',
+            },
+            author: {
+              type: 'string',
+              description: 'Who is cloning, recorded in the audit trail',
+            },
+          },
+          required: ['source_client', 'new_client', 'author'],
+        },
+      },
+      {
+        name: 'rename_client',
+        description:
+          'Rename a client across decisions, saved workflows, custom tasks and the exports folder. Decision history follows the rename.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Current client name',
+            },
+            new_name: {
+              type: 'string',
+              description: 'New client name',
+            },
+            author: {
+              type: 'string',
+              description: 'Who is renaming, recorded in the audit trail',
+            },
+          },
+          required: ['client_name', 'new_name', 'author'],
+        },
+      },
+      {
+        name: 'delete_client',
+        description:
+          'Remove a client from decisions, saved workflows, custom tasks and exports. By default the client is archived and can be restored with restore_client; mode "permanent" (with confirm: true) erases it. The audit trail is never erased.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            mode: {
+              type: 'string',
+              description: 'archive (default) or permanent',
+              enum: ['archive', 'permanent'],
+            },
+            reason: {
+              type: 'string',
+              description: 'Why the client is being removed',
+            },
+            confirm: {
+              type: 'boolean',
+              description: 'Required for permanent deletion',
+            },
+            author: {
+              type: 'string',
+              description: 'Who is deleting, recorded in the audit trail',
+            },
+          },
+          required: ['client_name', 'author'],
+        },
+      },
+      {
+        name: 'restore_client',
+        description: 'Restore an archived client into decisions, saved workflows, custom tasks and exports.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Archived client name',
+            },
+            author: {
+              type: 'string',
+              description: 'Who is restoring, recorded in the audit trail',
+            },
+          },
+          required: ['client_name', 'author'],
+        },
+      },
+      {
+        name: 'generate_workflow',
+        description: `Generate a Mermaid workflow diagram based on client decisions and automatically save it to client_workflows.json. This filters tasks based on Practice decisions and shows all Runtime exception paths. Version 3.0 includes ${familyNames} stages with beautiful enhanced UI, emojis, and professional styling.`,
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            stage: {
+              type: 'string',
+              description: `Stage to generate workflow for:\n\n${describeWorkflowScopes(registry)}`,
+              enum: getWorkflowScopes(registry),
+            },
+            baseline: {
+              type: 'boolean',
+              description:
+                'Generate a baseline from approved decisions only; unapproved answers and recommended defaults are not used (default: false)',
+            },
+            from_version: {
+              type: 'number',
+              description:
+                'Regenerate this saved version of the stage from its stored graph and decision snapshot as a new version; current answers and the task library are not used',
+            },
+            defaults: {
+              type: 'string',
+              description:
+                'How to handle unanswered decisions that have a recommended outcome: "mark" (default) applies the recommendation and flags affected nodes as assumed, "apply" applies it without flagging nodes, "fail" refuses to generate',
+              enum: ['mark', 'apply', 'fail'],
+            },
+          },
+          required: ['client_name', 'stage'],
+        },
+      },
+      {
+        name: 'preview_decision_impact',
+        description: 'Show what changing one decision would do to a client\'s workflow - tasks entering or leaving, re-linked edges, loops, decision diamonds and metadata counts - without saving anything',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            decision_id: {
+              type: 'string',
+              description: 'The decision to change (e.g., Q-SEC-01)',
+            },
+            selected_outcome: {
+              anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+              description: 'The outcome to preview; multi-select decisions accept an array',
+            },
+            stage: {
+              type: 'string',
+              description: 'Workflow scope to compare, as for generate_workflow (default: "All")',
+            },
+          },
+          required: ['client_name', 'decision_id', 'selected_outcome'],
+        },
+      },
+      {
+        name: 'get_saved_workflow',
+        description: 'Retrieve the most recently generated workflow for a client from client_workflows.json.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            stage: {
+              type: 'string',
+              description: 'Stage scope the workflow was generated for (e.g., "Complete-Dispensing"); default: the most recently generated',
+            },
+            version: {
+              type: 'number',
+              description: 'Version to use (default: the latest for the stage)',
+            },
+          },
+          required: ['client_name'],
+        },
+      },
+      {
+        name: 'list_workflow_versions',
+        description: 'List every saved workflow version for a client, by stage scope',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            stage: {
+              type: 'string',
+              description: 'Only this stage scope (optional)',
+            },
+          },
+          required: ['client_name'],
+        },
+      },
+      {
+        name: 'diff_workflows',
+        description: 'Compare two saved workflow versions for a stage, or a saved version against the current decisions: added and removed tasks, changed edges and decision diamonds, the decisions that caused each change, and a Mermaid diagram with added nodes in green and removed nodes in red',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            stage: {
+              type: 'string',
+              description: 'Stage scope the versions were generated for (e.g., "Complete-Dispensing")',
+            },
+            from_version: {
+              type: 'number',
+              description: 'The older version',
+            },
+            to_version: {
+              type: 'number',
+              description: 'The newer version (default: what the current decisions would generate)',
+            },
+          },
+          required: ['client_name', 'stage', 'from_version'],
+        },
+      },
+      {
+        name: 'export_workflow',
+        description: 'Export a client\'s saved workflow as a PNG image to the exports/[client_name]/ directory. This creates a timestamped file for the finalized workflow.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            stage: {
+              type: 'string',
+              description: 'Stage scope the workflow was generated for (e.g., "Complete-Dispensing"); default: the most recently generated',
+            },
+            version: {
+              type: 'number',
+              description: 'Version to use (default: the latest for the stage)',
+            },
+            format: {
+              type: 'string',
+              description: 'Export format: "png" (default) renders the diagram, "json" writes the stored graph and decision snapshot',
+              enum: ['png', 'json'],
+            },
+          },
+          required: ['client_name'],
+        },
+      },
+      {
+        name: 'list_exports',
+        description: 'List all exported workflow files for a specific client.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+          },
+          required: ['client_name'],
+        },
+      },
+      {
+        name: 'get_readiness_report',
+        description: 'Readiness dashboard: for each stage family and stage, the share of applicable Practice decisions answered, answers missing a rationale, answers that conflict with applicability rules and whether validate_workflow passes. Covers every client unless one is given.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Optional client; adds a row per stage (default: every client and site, by family)',
+            },
+            ...scopeProperties,
+          },
+        },
+      },
+      {
+        name: 'get_unanswered_decisions',
+        description: 'Get list of Practice decisions that still need to be answered for a client. Useful to determine what questions to ask next.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            stage: {
+              type: 'string',
+              description: 'Optional: filter by specific stage',
+              enum: stageNames,
+            },
+          },
+          required: ['client_name'],
+        },
+      },
+      {
+        name: 'validate_workflow',
+        description: 'Validate a generated workflow for disconnected nodes, missing edges, and structural issues.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            client_name: {
+              type: 'string',
+              description: 'Client company name',
+            },
+            ...scopeProperties,
+            stage: {
+              type: 'string',
+              description: 'Stage to validate: "All", "Complete-<Family>" or an individual stage',
+              enum: getWorkflowScopes(registry),
+            },
+          },
+          required: ['client_name', 'stage'],
+        },
+      },
+      {
+        name: 'lint_library',
+        description: 'Check tasks.json and decisions.json for integrity problems: dangling predecessors, parent_id pointing at a non-Macro task, unknown decision IDs or outcomes, predecessor cycles outside loops, duplicate IDs and unknown stages. Reports each problem with its file and line.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+    ],
+  };
+});
+
+// Tool handlers
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+
+  let releaseLock: (() => Promise<void>) | undefined;
+  try {
+    releaseLock = await acquireDataLock();
+
+    switch (name) {
+      case 'get_decisions': {
+        const { stage, category } = args as { stage?: string; category?: string };
+        const allDecisions = await loadDecisions();
+        const registry = await loadStages();
+
+        let filtered = allDecisions;
+
+        if (stage && stage !== 'All') {
+          if (!getStageOrder(registry).includes(stage)) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Error: Unknown stage "${stage}". Valid options are: "All", ${getStageOrder(registry)
+                    .map((s) => `"${s}"`)
+                    .join(', ')}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+          filtered = filtered.filter((d) => decisionAppliesToStage(d, stage));
+        }
+
+        if (category) {
+          filtered = filtered.filter((d) => d.category === category);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${filtered.length} decision(s):\n\n${filtered
+                .map(
+                  (d) =>
+                    `**${d.id}** (${d.category})\nQuestion: ${d.question}\nOutcomes: ${d.outcomes.join(', ')}${d.multi_select ? ' (multi-select)' : ''}\nStage: ${d.stage}\nAffects: ${d.affects}\n${d.applies_when?.length ? `Applies when: ${describeConditions(d.applies_when)}\n` : ''}`
+                )
+                .join('\n')}`,
+            },
+          ],
+        };
+      }
+
+      case 'get_decision_details': {
+        const { decision_id } = args as { decision_id: string };
+        const decisions = await loadDecisions();
+        const tasks = await loadTasks();
+
+        const decision = decisions.find((d) => d.id === decision_id);
+
+        if (!decision) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Decision ${decision_id} not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const affectedTasks = tasks.filter((t) => t.decision_id === decision_id);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `**${decision.id}** - ${decision.category}\n\nQuestion: ${decision.question}\n\nValid Outcomes${decision.multi_select ? ' (multi-select)' : ''}:\n${decision.outcomes.map((o) => `  - ${o}`).join('\n')}\n\nStage: ${decision.stage}\nAffects: ${decision.affects}\nNotes: ${decision.notes}\n${decision.applies_when?.length ? `Applies when: ${describeConditions(decision.applies_when)}\n` : ''}${decision.recommended ? `Recommended: ${decision.recommended.outcome} - ${decision.recommended.justification}\n` : ''}\nThis decision affects ${affectedTasks.length} task(s):\n${affectedTasks.map((t) => `  - ${t.id}: ${t.name} (when outcome = "${t.decision_outcome}")`).join('\n')}`,
+            },
+          ],
+        };
+      }
+
+      case 'save_client_decision': {
+        const { client_name, site, product, decision_id, selected_outcome, rationale, author } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          decision_id: string;
+          selected_outcome: string | string[];
+          rationale?: string;
+          author: string;
+        };
+        const missingAuthor = authorError(author);
+        if (missingAuthor) {
+          return missingAuthor;
+        }
+
+        const decisions = await loadDecisions();
+        const decision = decisions.find((d) => d.id === decision_id);
+
+        if (!decision) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Decision ${decision_id} not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const selection = parseSelectedOutcome(decision, selected_outcome);
+        if ('error' in selection) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${selection.error}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+
+        const clientDecisions = await loadClientDecisions();
+
+        if (!clientDecisions[target.key]) {
+          clientDecisions[target.key] = {};
+        }
+
+        const previous = clientDecisions[target.key][decision_id];
+        const inherited = previous ? undefined : resolveScopedAnswers(clientDecisions, target).answers[decision_id];
+
+        // Approved answers are locked; changes go through request_decision_change
+        if (previous?.status === 'approved') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${decision_id} is approved and locked for ${describeScope(target)} (approved by ${previous.approval?.approver}). Use \`request_decision_change\` to change it.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        clientDecisions[target.key][decision_id] = {
+          selected_outcome: selection.value,
+          status: 'draft',
+          rationale: rationale || '',
+          timestamp: new Date().toISOString(),
+          library_version: (await loadLibraryManifest()).version,
+        };
+
+        // The audit entry is written first so no change exists without its record
+        await appendAuditEntries(
+          [
+            {
+              client: target.key,
+              decision_id,
+              old_value: previous?.selected_outcome ?? null,
+              new_value: clientDecisions[target.key][decision_id].selected_outcome,
+              reason: rationale || '',
+            },
+          ],
+          'save',
+          author
+        );
+        await saveClientDecisions(clientDecisions);
+
+        // Warn about answers that do not count under the client's current answers
+        const { answers } = resolveScopedAnswers(clientDecisions, target);
+        const warnings: string[] = [];
+        if (inherited) {
+          warnings.push(`ℹ️ Overrides the inherited value "${formatSelectedOutcome(inherited)}"`);
+        }
+        if (!isDecisionApplicable(decision, answers, decisions)) {
+          warnings.push(
+            `⚠️ ${decision_id} does not currently apply (requires ${describeConditions(decision.applies_when || [])}); this answer will be ignored during generation`
+          );
+        }
+        const moot = filterApplicableDecisions(answers, decisions).ignored.filter((id) => id !== decision_id);
+        if (moot.length > 0) {
+          warnings.push(`⚠️ These answers are now moot and will be ignored during generation: ${moot.join(', ')}`);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Saved: ${decision_id} = "${formatSelectedOutcome(clientDecisions[target.key][decision_id])}" for ${describeScope(target)}${warnings.length > 0 ? `\n\n${warnings.join('\n')}` : ''}`,
+            },
+          ],
+        };
+      }
+
+      case 'apply_preset': {
+        const { client_name, preset: presetId, overwrite, author } = args as {
+          client_name: string;
+          preset: string;
+          overwrite?: boolean;
+          author: string;
+        };
+        const missingAuthor = authorError(author);
+        if (missingAuthor) {
+          return missingAuthor;
+        }
+
+        const invalidName = checkScopeName(client_name);
+        if (invalidName) {
+          return scopeError(invalidName);
+        }
+
+        const { presets } = await loadPresets();
+        const preset = presets.find((p) => p.id === presetId);
+
+        if (!preset) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Preset "${presetId}" not found. Available presets: ${presets.map((p) => p.id).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const library = await loadDecisions();
+        const { answers, issues } = resolvePresetAnswers(preset, library);
+        const { version: libraryVersion } = await loadLibraryManifest();
+
+        const clientDecisions = await loadClientDecisions();
+        if (!clientDecisions[client_name]) {
+          clientDecisions[client_name] = {};
+        }
+        const existing = clientDecisions[client_name];
+        const before = { ...existing };
+
+        const applied: string[] = [];
+        const kept: string[] = [];
+        const timestamp = new Date().toISOString();
+
+        for (const [id, selected_outcome] of answers) {
+          // Approved answers are locked even when overwriting
+          if (existing[id] && (!overwrite || existing[id].status === 'approved')) {
+            kept.push(id);
+            continue;
+          }
+          existing[id] = {
+            selected_outcome,
+            status: 'draft',
+            rationale: `Preset: ${preset.name}`,
+            timestamp,
+            library_version: libraryVersion,
+          };
+          applied.push(id);
+        }
+
+        await appendAuditEntries(
+          diffAnswers(client_name, before, existing, `Preset: ${preset.name}`),
+          'preset',
+          author
+        );
+        await saveClientDecisions(clientDecisions);
+
+        let text = `✅ Applied preset "${preset.name}" to ${client_name}: ${applied.length} decision(s) set`;
+        if (kept.length > 0) {
+          text += `\n\nKept ${kept.length} existing answer(s) (use overwrite: true to replace; approved answers are never replaced): ${kept.join(', ')}`;
+        }
+        if (issues.length > 0) {
+          text += `\n\n⚠️ Skipped invalid preset entries:\n${issues.map((i) => `  - ${i}`).join('\n')}`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text,
+            },
+          ],
+        };
+      }
+
+      case 'list_presets': {
+        const { presets } = await loadPresets();
+
+        const formatted = presets
+          .map(
+            (p) =>
+              `**${p.id}** - ${p.name}\n${p.description}\n${p.include_recommended ? 'Starts from recommended defaults; ' : ''}${Object.keys(p.answers).length} explicit answer(s)`
+          )
+          .join('\n\n');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Available presets (${presets.length}):\n\n${formatted}`,
+            },
+          ],
+        };
+      }
+
+      case 'add_custom_task': {
+        const input = args as {
+          client_name: string;
+          name: string;
+          stage: string;
+          predecessors?: string[];
+          insert_before?: string;
+          parent_id?: string;
+          type?: string;
+          edge_type?: string;
+          actor?: string;
+          decision_id?: string;
+          decision_outcome?: string;
+          controls?: string;
+        };
+
+        const invalidName = checkScopeName(input.client_name);
+        if (invalidName) {
+          return scopeError(invalidName);
+        }
+
+        const clientTasks = await loadClientTasks();
+        const existing = clientTasks[input.client_name] || [];
+        const library = mergeCustomTasks(await loadTasks(), existing);
+
+        const task: CustomTask = {
+          id: nextCustomTaskId(existing),
+          parent_id: input.parent_id || null,
+          name: input.name,
+          type: input.type || 'Micro',
+          stage: input.stage,
+          actor: input.actor || '',
+          integration: '',
+          inputs: '',
+          outputs: '',
+          predecessors: input.predecessors || [],
+          edge_type: input.edge_type || 'control',
+          guard_condition: '',
+          decision_id: input.decision_id || null,
+          decision_outcome: input.decision_outcome || null,
+          loop_key: '',
+          loop_exit_condition: '',
+          logs: '',
+          controls: input.controls || '',
+          created: new Date().toISOString(),
+        };
+        if (input.insert_before) {
+          task.insert_before = input.insert_before;
+        }
+
+        const errors = validateCustomTask(task, library, await loadDecisions(), await loadStages());
+        if (!input.insert_before && task.predecessors.length === 0) {
+          errors.push('Provide predecessors or insert_before so the task is connected to the workflow');
+        }
+        if (errors.length > 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Cannot add custom task:\n${errors.map((e) => `  - ${e}`).join('\n')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        clientTasks[input.client_name] = [...existing, task];
+        await saveClientTasks(clientTasks);
+
+        const placement = input.insert_before
+          ? `before ${input.insert_before}`
+          : `after ${task.predecessors.join(', ')}`;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Added ${task.id} "${task.name}" (${task.stage}) ${placement} for ${input.client_name}\n\nRegenerate the workflow to include it.`,
+            },
+          ],
+        };
+      }
+
+      case 'list_custom_tasks': {
+        const { client_name } = args as { client_name: string };
+        const clientTasks = await loadClientTasks();
+        const tasks = clientTasks[client_name] || [];
+
+        if (tasks.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No custom tasks for ${client_name}`,
+              },
+            ],
+          };
+        }
+
+        const formatted = tasks
+          .map((t) => {
+            const placement = t.insert_before ? `before ${t.insert_before}` : `after ${t.predecessors.join(', ')}`;
+            const gate = t.decision_id ? ` [when ${t.decision_id} = "${t.decision_outcome}"]` : '';
+            return `  - **${t.id}**: ${t.name} (${t.stage}, ${t.type}) ${placement}${gate}`;
+          })
+          .join('\n');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Custom tasks for ${client_name} (${tasks.length} total):\n\n${formatted}`,
+            },
+          ],
+        };
+      }
+
+      case 'remove_custom_task': {
+        const { client_name, task_id } = args as { client_name: string; task_id: string };
+        const clientTasks = await loadClientTasks();
+        const tasks = clientTasks[client_name] || [];
+
+        if (!tasks.some((t) => t.id === task_id)) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Custom task ${task_id} not found for ${client_name}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const dependents = tasks.filter((t) => t.id !== task_id && (t.predecessors.includes(task_id) || t.parent_id === task_id));
+        if (dependents.length > 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Cannot remove ${task_id}; these custom tasks depend on it: ${dependents.map((t) => t.id).join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        clientTasks[client_name] = tasks.filter((t) => t.id !== task_id);
+        await saveClientTasks(clientTasks);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Removed ${task_id} for ${client_name}`,
+            },
+          ],
+        };
+      }
+
+      case 'promote_custom_task': {
+        const { client_name, task_id, new_id, confirm } = args as {
+          client_name: string;
+          task_id: string;
+          new_id?: string;
+          confirm?: boolean;
+        };
+
+        const plan = planPromotion(
+          client_name,
+          task_id,
+          new_id,
+          await loadTasks(),
+          await loadClientTasks(),
+          await loadStages(),
+          await loadLibraryManifest()
+        );
+
+        if ('errors' in plan) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Cannot promote ${task_id}:\n${plan.errors.map((e) => `  - ${e}`).join('\n')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const changeList = plan.changes.map((c) => `  - ${c}`).join('\n');
+
+        if (!confirm) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Promotion preview for ${client_name} ${task_id} → ${plan.promoted.id}:\n\n${changeList}\n\nRun again with confirm: true to apply.`,
+              },
+            ],
+          };
+        }
+
+        await saveTasks(plan.tasks);
+        await saveLibraryManifest(plan.manifest);
+        await saveClientTasks(plan.clientTasks);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Promoted ${client_name} ${task_id} to library task ${plan.promoted.id}\n\n${changeList}\n\nRun \`lint_library\` to check the updated library, then \`migrate_client\` to move clients to library v${plan.manifest.version}.`,
+            },
+          ],
+        };
+      }
+
+      case 'propose_decisions': {
+        const { client_name, site, product, decision_ids, author } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          decision_ids?: string[];
+          author: string;
+        };
+        const missingAuthor = authorError(author);
+        if (missingAuthor) {
+          return missingAuthor;
+        }
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+        const clientDecisions = await loadClientDecisions();
+        const answers = clientDecisions[target.key] || {};
+
+        const ids = decision_ids || Object.keys(answers).filter((id) => (answers[id].status || 'draft') === 'draft');
+        const notDraft = ids.filter((id) => !answers[id] || (answers[id].status || 'draft') !== 'draft');
+        if (notDraft.length > 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Only draft answers can be proposed. Not drafts for ${describeScope(target)}: ${notDraft
+                  .map((id) => `${id} (${answers[id]?.status || 'unanswered'})`)
+                  .join(', ')}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        await appendAuditEntries(
+          ids.map((id) => ({
+            client: target.key,
+            decision_id: id,
+            old_value: answers[id].selected_outcome,
+            new_value: answers[id].selected_outcome,
+            reason: 'Proposed for approval',
+          })),
+          'propose',
+          author
+        );
+        for (const id of ids) {
+          answers[id].status = 'proposed';
+          answers[id].proposed_by = author;
+        }
+        await saveClientDecisions(clientDecisions);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Proposed ${ids.length} decision(s) for ${describeScope(target)}${ids.length > 0 ? `: ${ids.join(', ')}` : ''}`,
+            },
+          ],
+        };
+      }
+
+      case 'approve_decisions': {
+        const { client_name, site, product, decision_ids, approver, comment } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          decision_ids?: string[];
+          approver: string;
+          comment: string;
+        };
+        if (!approver?.trim()) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'Error: approver is required',
+              },
+            ],
+            isError: true,
+          };
+        }
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+        const clientDecisions = await loadClientDecisions();
+        const answers = clientDecisions[target.key] || {};
+
+        const pending = (id: string) => answers[id]?.status === 'proposed' || !!answers[id]?.change_request;
+        const ids = decision_ids || Object.keys(answers).filter(pending);
+        const notPending = ids.filter((id) => !pending(id));
+        if (notPending.length > 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Nothing to approve for ${notPending.join(', ')} (only proposed answers and pending change requests can be approved)`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // Four-eyes rule: whoever proposed an answer or requested a change cannot approve it
+        const samePerson = (name?: string) => !!name && name.trim().toLowerCase() === approver.trim().toLowerCase();
+        const ownChanges = ids.filter((id) =>
+          answers[id].change_request ? samePerson(answers[id].change_request?.requested_by) : samePerson(answers[id].proposed_by)
+        );
+        if (ownChanges.length > 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${approver} proposed or requested ${ownChanges.join(', ')} and cannot approve them; another approver must sign off`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const timestamp = new Date().toISOString();
+        await appendAuditEntries(
+          ids.map((id) => ({
+            client: target.key,
+            decision_id: id,
+            old_value: answers[id].selected_outcome,
+            new_value: answers[id].change_request?.selected_outcome ?? answers[id].selected_outcome,
+            reason: answers[id].change_request ? `Change approved: ${comment}` : comment,
+          })),
+          'approve',
+          approver
+        );
+        for (const id of ids) {
+          const answer = answers[id];
+          if (answer.change_request) {
+            answer.selected_outcome = answer.change_request.selected_outcome;
+            // Migration requests only carry a renamed outcome, so the answer keeps its rationale
+            if (answer.change_request.library_version) {
+              answer.library_version = answer.change_request.library_version;
+            } else {
+              answer.rationale = answer.change_request.reason;
+            }
+            answer.timestamp = timestamp;
+            delete answer.change_request;
+          }
+          answer.status = 'approved';
+          answer.approval = { approver, comment, timestamp };
+        }
+        await saveClientDecisions(clientDecisions);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Approved ${ids.length} decision(s) for ${describeScope(target)} by ${approver}${ids.length > 0 ? `: ${ids.join(', ')}` : ''}\n\n🔒 Approved answers are locked; use \`request_decision_change\` to change them.`,
+            },
+          ],
+        };
+      }
+
+      case 'reject_decisions': {
+        const { client_name, site, product, decision_ids, reviewer, comment } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          decision_ids: string[];
+          reviewer: string;
+          comment: string;
+        };
+        const missingReviewer = authorError(reviewer);
+        if (missingReviewer) {
+          return missingReviewer;
+        }
+        if (!Array.isArray(decision_ids) || decision_ids.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'Error: decision_ids must list at least one decision to reject',
+              },
+            ],
+            isError: true,
+          };
+        }
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+        const clientDecisions = await loadClientDecisions();
+        const answers = clientDecisions[target.key] || {};
+
+        const notPending = decision_ids.filter((id) => answers[id]?.status !== 'proposed' && !answers[id]?.change_request);
+        if (notPending.length > 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Nothing to reject for ${notPending.join(', ')} (only proposed answers and pending change requests can be rejected)`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        await appendAuditEntries(
+          decision_ids.map((id) => ({
+            client: target.key,
+            decision_id: id,
+            old_value: answers[id].selected_outcome,
+            new_value: answers[id].selected_outcome,
+            reason: answers[id].change_request ? `Change request rejected: ${comment}` : `Rejected: ${comment}`,
+          })),
+          'reject',
+          reviewer
+        );
+        for (const id of decision_ids) {
+          if (answers[id].change_request) {
+            delete answers[id].change_request;
+          } else {
+            answers[id].status = 'draft';
+            delete answers[id].proposed_by;
+          }
+        }
+        await saveClientDecisions(clientDecisions);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Rejected ${decision_ids.length} decision(s) for ${describeScope(target)}: ${decision_ids.join(', ')}`,
+            },
+          ],
+        };
+      }
+
+      case 'request_decision_change': {
+        const { client_name, site, product, decision_id, selected_outcome, reason, author } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          decision_id: string;
+          selected_outcome: string | string[];
+          reason: string;
+          author: string;
+        };
+        const missingAuthor = authorError(author);
+        if (missingAuthor) {
+          return missingAuthor;
+        }
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+        const decision = (await loadDecisions()).find((d) => d.id === decision_id);
+        const clientDecisions = await loadClientDecisions();
+        const answer = clientDecisions[target.key]?.[decision_id];
+
+        if (!decision || answer?.status !== 'approved') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${decision_id} is not an approved decision for ${describeScope(target)}; use \`save_client_decision\` for unapproved answers`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const selection = parseSelectedOutcome(decision, selected_outcome);
+        if ('error' in selection) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${selection.error}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        await appendAuditEntries(
+          [
+            {
+              client: target.key,
+              decision_id,
+              old_value: answer.selected_outcome,
+              new_value: selection.value,
+              reason,
+            },
+          ],
+          'change_request',
+          author
+        );
+        answer.change_request = {
+          selected_outcome: selection.value,
+          reason,
+          requested_by: author,
+          timestamp: new Date().toISOString(),
+        };
+        await saveClientDecisions(clientDecisions);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Change requested for ${decision_id}: "${formatSelectedOutcome(answer)}" → "${Array.isArray(selection.value) ? selection.value.join(' + ') : selection.value}"\n\nThe approved answer stays in force until the request is approved with \`approve_decisions\`.`,
+            },
+          ],
+        };
+      }
+
+      case 'get_decision_history': {
+        const { client_name, decision_id } = args as { client_name: string; decision_id?: string };
+        const log = await loadAuditLog();
+
+        const problem = verifyAuditChain(log);
+        const integrity = problem
+          ? `❌ Audit trail integrity check FAILED: ${problem}`
+          : `🔒 Audit trail integrity verified (${log.length} entries${log.length > 0 ? `, head hash ${log[log.length - 1].hash}` : ''})`;
+
+        // Follow renames back so history recorded under earlier names is included; site and
+        // product entries are recorded under "Client/Site[/Product]" keys
+        const names = new Set([client_name]);
+        for (const entry of [...log].reverse()) {
+          if (entry.action === 'rename' && names.has(String(entry.new_value))) {
+            names.add(String(entry.old_value));
+          }
+        }
+        const entries = log.filter(
+          (e) => names.has(e.client.split(SCOPE_SEPARATOR)[0]) && (!decision_id || e.decision_id === decision_id)
+        );
+        const show = (value: string | string[] | null) =>
+          value === null ? '(none)' : `"${Array.isArray(value) ? value.join(' + ') : value}"`;
+
+        const formatted = entries
+          .map(
+            (e) =>
+              `  #${e.sequence} ${e.timestamp} - ${e.client.includes(SCOPE_SEPARATOR) ? `[${e.client.split(SCOPE_SEPARATOR).slice(1).join(' / ')}] ` : ''}**${e.decision_id === '*' ? '(client)' : e.decision_id}** ${show(e.old_value)} → ${show(e.new_value)}\n    by ${e.author} (${e.action})${e.reason ? `: ${e.reason}` : ''}`
+          )
+          .join('\n');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Decision history for ${client_name}${decision_id ? ` - ${decision_id}` : ''} (${entries.length} change(s)):\n\n${formatted || '  No recorded changes'}\n\n${integrity}`,
+            },
+          ],
+          isError: problem ? true : undefined,
+        };
+      }
+
+      case 'export_questionnaire': {
+        const { client_name, site, product, stage } = args as {
+          client_name?: string;
+          site?: string;
+          product?: string;
+          stage?: string;
+        };
+        const target = client_name ? await resolveClientScope(client_name, site, product) : undefined;
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+        const library = await loadDecisions();
+        const { answers, sources }: ScopedAnswers = target
+          ? resolveScopedAnswers(await loadClientDecisions(), target)
+          : { answers: {}, sources: {} };
+
+        const practice = library.filter(
+          (d) => d.category === 'Practice' && (!stage || decisionAppliesToStage(d, stage))
+        );
+
+        const rows = [
+          QUESTIONNAIRE_COLUMNS,
+          ...practice.map((d) => [
+            d.id,
+            d.stage,
+            d.question,
+            d.outcomes.join(CSV_OUTCOME_SEPARATOR),
+            d.multi_select ? 'yes' : 'no',
+            d.applies_when?.length ? describeConditions(d.applies_when) : '',
+            d.recommended?.outcome || '',
+            d.affects,
+            d.notes,
+            selectedOutcomes(answers[d.id]).join(CSV_OUTCOME_SEPARATOR),
+            answers[d.id]?.rationale || '',
+            target ? describeAnswerSource(target, sources[d.id]) : '',
+            '',
+            '',
+          ]),
+        ];
+
+        let dir = workspace.exportsDir;
+        if (target) {
+          dir = await ensureClientExportDir(target.key);
+        } else {
+          await ensureExportsDir();
+        }
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+        const filename = `questionnaire${stage ? `_${stage.replace(/[^A-Za-z0-9]+/g, '-')}` : ''}_${timestamp}.csv`;
+        const filePath = path.join(dir, filename);
+
+        // BOM so spreadsheet tools open the file as UTF-8
+        await fs.writeFile(filePath, '\uFEFF' + formatCsv(rows), 'utf-8');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Questionnaire exported: ${practice.length} Practice decision(s)\n\n**File:** ${filePath}\n\nFill in the \`answer\` column (separate several outcomes with "${CSV_OUTCOME_SEPARATOR.trim()}" for multi-select decisions) and load it with \`import_client_decisions\`.`,
+            },
+          ],
+        };
+      }
+
+      case 'import_client_decisions': {
+        const { client_name, site, product, file_path, author } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          file_path: string;
+          author: string;
+        };
+        const missingAuthor = authorError(author);
+        if (missingAuthor) {
+          return missingAuthor;
+        }
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+        const filePath = path.resolve(workspace.exportsDir, file_path || '');
+        if (!isInsideDir(workspace.exportsDir, filePath)) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${file_path} is not inside the exports directory ${workspace.exportsDir}; questionnaires are imported from there`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const [header, ...records] = parseCsv(await fs.readFile(filePath, 'utf-8'));
+        const column = (name: string) => header?.fields.findIndex((f) => f.trim().toLowerCase() === name) ?? -1;
+        const idColumn = column('decision_id');
+        const answerColumn = column('answer');
+        const rationaleColumn = column('rationale');
+
+        if (idColumn < 0 || answerColumn < 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${filePath} needs "decision_id" and "answer" header columns`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const library = await loadDecisions();
+        const { version: libraryVersion } = await loadLibraryManifest();
+        const clientDecisions = await loadClientDecisions();
+        const existing = clientDecisions[target.key] || {};
+        // At a site or product, rows that repeat the inherited answer do not become overrides
+        const inherited = resolveScopedAnswers(clientDecisions, { ...target, chain: target.chain.slice(0, -1) }).answers;
+
+        const errors: string[] = [];
+        const imported: { [key: string]: ClientDecision } = {};
+        const seen = new Set<string>();
+        let blank = 0;
+        let unchanged = 0;
+        const timestamp = new Date().toISOString();
+
+        for (const record of records) {
+          const id = (record.fields[idColumn] || '').trim();
+          const rawAnswer = (record.fields[answerColumn] || '').trim();
+          const rationale = rationaleColumn >= 0 ? (record.fields[rationaleColumn] || '').trim() : '';
+
+          if (!rawAnswer) {
+            blank++;
+            continue;
+          }
+
+          const decision = library.find((d) => d.id === id);
+          if (!decision) {
+            errors.push(`Line ${record.line}: decision "${id}" is not defined`);
+            continue;
+          }
+          if (decision.category !== 'Practice') {
+            errors.push(`Line ${record.line}: ${id} is a ${decision.category} decision; questionnaires only cover Practice decisions`);
+            continue;
+          }
+          if (seen.has(id)) {
+            errors.push(`Line ${record.line}: ${id} appears more than once`);
+            continue;
+          }
+          seen.add(id);
+
+          const outcomes = rawAnswer.split(CSV_OUTCOME_SEPARATOR.trim()).map((o) => o.trim());
+          const selection = parseSelectedOutcome(decision, decision.outcomes.includes(rawAnswer) ? rawAnswer : outcomes);
+          if ('error' in selection) {
+            errors.push(`Line ${record.line}: ${selection.error}`);
+            continue;
+          }
+
+          const sameAnswer = (answer?: ClientDecision) =>
+            !!answer &&
+            JSON.stringify(selectedOutcomes(answer).sort()) === JSON.stringify([selection.value].flat().sort());
+          // Rows repeating the current answer change nothing, and leave approved answers alone
+          if (sameAnswer(existing[id]) && (!rationale || rationale === existing[id].rationale)) {
+            unchanged++;
+            continue;
+          }
+          if (!existing[id] && sameAnswer(inherited[id])) {
+            unchanged++;
+            continue;
+          }
+          if (existing[id]?.status === 'approved') {
+            errors.push(`Line ${record.line}: ${id} is approved and locked; use request_decision_change`);
+            continue;
+          }
+
+          imported[id] = {
+            selected_outcome: selection.value,
+            status: 'draft',
+            rationale,
+            timestamp,
+            library_version: libraryVersion,
+          };
+        }
+
+        // Valid rows are saved in a single write
+        const updated = { ...existing, ...imported };
+        await appendAuditEntries(
+          diffAnswers(target.key, existing, updated, `Imported from ${path.basename(filePath)}`),
+          'import',
+          author
+        );
+        clientDecisions[target.key] = updated;
+        await saveClientDecisions(clientDecisions);
+
+        const count = Object.keys(imported).length;
+        let text = `${errors.length > 0 ? '⚠️' : '✅'} Imported ${count} answer(s) for ${describeScope(target)} from ${path.basename(filePath)} (${blank} blank row(s) skipped${unchanged > 0 ? `, ${unchanged} matching the current or inherited answer` : ''})`;
+        if (errors.length > 0) {
+          text += `\n\n${errors.length} row(s) rejected:\n${errors.map((e) => `  - ${e}`).join('\n')}`;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text,
+            },
+          ],
+        };
+      }
+
+      case 'add_site': {
+        const { client_name, site, products = [] } = args as { client_name: string; site: string; products?: string[] };
+        const invalid = [client_name, site, ...products].map(checkScopeName).find(Boolean);
+        if (invalid) {
+          return scopeError(invalid);
+        }
+
+        if (!(client_name in (await loadClientDecisions()))) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: No decisions configured for ${client_name}. Sites inherit the client's answers, so configure the client first.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const clientSites = await loadClientSites();
+        const sites = (clientSites[client_name] ??= {});
+        const existing = sites[site];
+        const definition = (sites[site] ??= { created: new Date().toISOString(), products: [] });
+        const added = products.filter((p) => !definition.products.includes(p));
+        definition.products.push(...added);
+        await saveClientSites(clientSites);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ ${existing ? 'Updated' : 'Added'} site ${client_name} / ${site}${added.length > 0 ? ` with product(s): ${added.join(', ')}` : ''}\n\nThe site inherits every client answer. Override one with \`save_client_decision\` and site: "${site}".`,
+            },
+          ],
+        };
+      }
+
+      case 'clear_decision_override': {
+        const { client_name, site, product, decision_id, author } = args as {
+          client_name: string;
+          site: string;
+          product?: string;
+          decision_id: string;
+          author: string;
+        };
+        const missingAuthor = authorError(author);
+        if (missingAuthor) {
+          return missingAuthor;
+        }
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+        const clientDecisions = await loadClientDecisions();
+        const override = clientDecisions[target.key]?.[decision_id];
+
+        if (!override) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${describeScope(target)} has no override for ${decision_id}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        if (override.status === 'approved') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: The override of ${decision_id} for ${describeScope(target)} is approved and locked`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        await appendAuditEntries(
+          [
+            {
+              client: target.key,
+              decision_id,
+              old_value: override.selected_outcome,
+              new_value: null,
+              reason: 'Override cleared',
+            },
+          ],
+          'clear_override',
+          author
+        );
+        delete clientDecisions[target.key][decision_id];
+        await saveClientDecisions(clientDecisions);
+
+        const inherited = resolveScopedAnswers(clientDecisions, target).answers[decision_id];
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Cleared the override of ${decision_id} for ${describeScope(target)}; it now ${inherited ? `inherits "${formatSelectedOutcome(inherited)}"` : 'is unanswered'}`,
+            },
+          ],
+        };
+      }
+
+      case 'clone_client': {
+        const { source_client, new_client, author } = args as {
+          source_client: string;
+          new_client: string;
+          author: string;
+        };
+        const missingAuthor = authorError(author);
+        if (missingAuthor) {
+          return missingAuthor;
+        }
+        const clientDecisions = await loadClientDecisions();
+        const source = clientDecisions[source_client];
+
+        if (!source) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: No decisions configured for ${source_client}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        const invalidName = checkScopeName(new_client);
+        if (invalidName) {
+          return scopeError(invalidName);
+        }
+        if (await isClientNameTaken(new_client)) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Client "${new_client}" already exists (or is archived)`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // A clone is a starting point: every answer goes back to draft for the new client's own sign-off
+        const timestamp = new Date().toISOString();
+        const asDrafts = (answers: { [key: string]: ClientDecision }) => {
+          const drafts: { [key: string]: ClientDecision } = {};
+          for (const [id, answer] of Object.entries(answers)) {
+            const { approval: _approval, change_request: _changeRequest, proposed_by: _proposedBy, ...rest } = answer;
+            drafts[id] = { ...rest, status: 'draft', timestamp };
+          }
+          return drafts;
+        };
+        const cloned = asDrafts(source);
+        // Sites come along with their overrides
+        const clientSites = await loadClientSites();
+        const siteKeys = clientScopeKeys(clientDecisions, source_client).filter((key) => key !== source_client);
+
+        const clientTasks = await loadClientTasks();
+        const customTasks = (clientTasks[source_client] || []).map((t) => ({ ...t, predecessors: [...t.predecessors] }));
+
+        const siteClones = siteKeys.map((key) => ({
+          key: new_client + key.slice(source_client.length),
+          answers: asDrafts(clientDecisions[key]),
+        }));
+        await appendAuditEntries(
+          [{ key: new_client, answers: cloned }, ...siteClones].flatMap(({ key, answers }) =>
+            diffAnswers(key, {}, answers, `Cloned from ${source_client}`)
+          ),
+          'clone',
+          author
+        );
+        clientDecisions[new_client] = cloned;
+        for (const { key, answers } of siteClones) {
+          clientDecisions[key] = answers;
+        }
+        await saveClientDecisions(clientDecisions);
+        if (clientSites[source_client]) {
+          clientSites[new_client] = JSON.parse(JSON.stringify(clientSites[source_client]));
+          await saveClientSites(clientSites);
+        }
+        if (customTasks.length > 0) {
+          clientTasks[new_client] = customTasks;
+          await saveClientTasks(clientTasks);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Cloned ${source_client} → ${new_client}: ${Object.keys(cloned).length} decision(s) as drafts, ${customTasks.length} custom task(s), ${Object.keys(clientSites[source_client] || {}).length} site(s)`,
+            },
+          ],
+        };
+      }
+
+      case 'rename_client': {
+        const { client_name, new_name, author } = args as { client_name: string; new_name: string; author: string };
+        const missingAuthor = authorError(author);
+        if (missingAuthor) {
+          return missingAuthor;
+        }
+        const [clientDecisions, clientWorkflows, clientTasks, clientSites] = await Promise.all([
+          loadClientDecisions(),
+          loadClientWorkflows(),
+          loadClientTasks(),
+          loadClientSites(),
+        ]);
+        const oldDir = exportsPath(client_name);
+
+        if (!(client_name in clientDecisions) && !(client_name in clientWorkflows) && !(client_name in clientTasks)) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Client ${client_name} not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        const invalidName = checkScopeName(new_name);
+        if (invalidName) {
+          return scopeError(invalidName);
+        }
+        if (await isClientNameTaken(new_name)) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Client "${new_name}" already exists (or is archived)`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        await appendAuditEntries(
+          [{ client: new_name, decision_id: '*', old_value: client_name, new_value: new_name, reason: 'Client renamed' }],
+          'rename',
+          author
+        );
+
+        const moved: string[] = [];
+        for (const [label, store, save] of [
+          ['decisions', clientDecisions, () => saveClientDecisions(clientDecisions)],
+          ['saved workflows', clientWorkflows, () => saveClientWorkflows(clientWorkflows)],
+          ['custom tasks', clientTasks, () => saveClientTasks(clientTasks)],
+          ['sites', clientSites, () => saveClientSites(clientSites)],
+        ] as [string, { [client: string]: unknown }, () => Promise<void>][]) {
+          // Site and product keys are renamed along with the client's own
+          const keys = clientScopeKeys(store, client_name);
+          if (keys.length > 0) {
+            for (const key of keys) {
+              store[new_name + key.slice(client_name.length)] = store[key];
+              delete store[key];
+            }
+            await save();
+            moved.push(label);
+          }
+        }
+        if (existsSync(oldDir)) {
+          await fs.rename(oldDir, exportsPath(new_name));
+          moved.push('exports folder');
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `✅ Renamed ${client_name} → ${new_name} (${moved.join(', ')})`,
+            },
+          ],
+        };
+      }
+
+      case 'delete_client': {
+        const { client_name, mode = 'archive', reason, confirm, author } = args as {
+          client_name: string;
+          mode?: 'archive' | 'permanent';
+          reason?: string;
+          confirm?: boolean;
+          author: string;
+        };
+        const missingAuthor = authorError(author);
+        if (missingAuthor) {
+          return missingAuthor;
+        }
+        const [clientDecisions, clientWorkflows, clientTasks, clientSites, archive] = await Promise.all([
+          loadClientDecisions(),
+          loadClientWorkflows(),
+          loadClientTasks(),
+          loadClientSites(),
+          loadClientArchive(),
+        ]);
+        const siteDecisionKeys = clientScopeKeys(clientDecisions, client_name).filter((key) => key !== client_name);
+        const siteWorkflowKeys = clientScopeKeys(clientWorkflows, client_name).filter((key) => key !== client_name);
+        const exportsDir = exportsPath(client_name);
+        const isLive = client_name in clientDecisions || client_name in clientWorkflows || client_name in clientTasks;
+
+        if (!isLive && !(mode === 'permanent' && client_name in archive)) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Client ${client_name} not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-// Tool handlers
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+        if (mode === 'permanent' && !confirm) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Permanent deletion of ${client_name} erases its decisions, saved workflows, custom tasks and exports. Run again with confirm: true, or use mode "archive".`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-  try {
-    switch (name) {
-      case 'get_decisions': {
-        const { stage, category } = args as { stage?: string; category?: string };
-        const allDecisions = await loadDecisions();
+        // An earlier archived copy would be overwritten, losing its decisions and workflows
+        if (mode === 'archive' && client_name in archive) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${client_name} already has an archived copy (archived ${archive[client_name].archived}). Rename the live client with \`rename_client\` and archive it under the new name.`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-        let filtered = allDecisions;
+        await appendAuditEntries(
+          [{ client: client_name, decision_id: '*', old_value: null, new_value: null, reason: reason || '' }],
+          mode === 'permanent' ? 'delete' : 'archive',
+          author
+        );
 
-        if (stage && stage !== 'All') {
-          filtered = filtered.filter((d) => d.stage === stage);
+        if (mode === 'archive') {
+          const entry: ArchivedClient = {
+            archived: new Date().toISOString(),
+            reason: reason || '',
+            decisions: clientDecisions[client_name] || {},
+            workflows: clientWorkflows[client_name],
+            custom_tasks: clientTasks[client_name] || [],
+            sites: clientSites[client_name],
+            site_decisions: Object.fromEntries(siteDecisionKeys.map((key) => [key, clientDecisions[key]])),
+            site_workflows: Object.fromEntries(siteWorkflowKeys.map((key) => [key, clientWorkflows[key]])),
+          };
+          if (existsSync(exportsDir)) {
+            const archiveDir = exportsPath(ARCHIVED_EXPORTS_FOLDER);
+            await fs.mkdir(archiveDir, { recursive: true });
+            entry.exports_dir = path.join(archiveDir, `${client_name}_${entry.archived.replace(/[:.]/g, '-')}`);
+            await fs.rename(exportsDir, entry.exports_dir);
+          }
+          archive[client_name] = entry;
+          await saveClientArchive(archive);
+        } else {
+          if (existsSync(exportsDir)) {
+            await fs.rm(exportsDir, { recursive: true });
+          }
+          const archivedDir = archive[client_name] && archivedExportsPath(archive[client_name]);
+          if (archivedDir && existsSync(archivedDir)) {
+            await fs.rm(archivedDir, { recursive: true });
+          }
+          if (client_name in archive) {
+            delete archive[client_name];
+            await saveClientArchive(archive);
+          }
         }
 
-        if (category) {
-          filtered = filtered.filter((d) => d.category === category);
+        for (const key of [client_name, ...siteDecisionKeys]) {
+          delete clientDecisions[key];
+        }
+        for (const key of [client_name, ...siteWorkflowKeys]) {
+          delete clientWorkflows[key];
         }
+        delete clientTasks[client_name];
+        delete clientSites[client_name];
+        await saveClientDecisions(clientDecisions);
+        await saveClientWorkflows(clientWorkflows);
+        await saveClientTasks(clientTasks);
+        await saveClientSites(clientSites);
 
         return {
           content: [
             {
               type: 'text',
-              text: `Found ${filtered.length} decision(s):\n\n${filtered
-                .map(
-                  (d) =>
-                    `**${d.id}** (${d.category})\nQuestion: ${d.question}\nOutcomes: ${d.outcomes.join(', ')}\nStage: ${d.stage}\nAffects: ${d.affects}\n`
-                )
-                .join('\n')}`,
+              text:
+                mode === 'archive'
+                  ? `✅ Archived ${client_name}. Restore it with \`restore_client\`.`
+                  : `✅ Permanently deleted ${client_name}. Its audit trail is kept.`,
             },
           ],
         };
       }
 
-      case 'get_decision_details': {
-        const { decision_id } = args as { decision_id: string };
-        const decisions = await loadDecisions();
-        const tasks = await loadTasks();
+      case 'restore_client': {
+        const { client_name, author } = args as { client_name: string; author: string };
+        const missingAuthor = authorError(author);
+        if (missingAuthor) {
+          return missingAuthor;
+        }
+        const archive = await loadClientArchive();
+        const entry = archive[client_name];
 
-        const decision = decisions.find((d) => d.id === decision_id);
+        if (!entry) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: No archived client named ${client_name}`,
+              },
+            ],
+            isError: true,
+          };
+        }
 
-        if (!decision) {
+        const [clientDecisions, clientWorkflows, clientTasks] = await Promise.all([
+          loadClientDecisions(),
+          loadClientWorkflows(),
+          loadClientTasks(),
+        ]);
+        const exportsDir = exportsPath(client_name);
+        const archivedDir = archivedExportsPath(entry);
+        if (
+          client_name in clientDecisions ||
+          client_name in clientWorkflows ||
+          client_name in clientTasks ||
+          existsSync(exportsDir)
+        ) {
           return {
             content: [
               {
                 type: 'text',
-                text: `Error: Decision ${decision_id} not found`,
+                text: `Error: A live client named ${client_name} already exists; rename it before restoring`,
               },
             ],
             isError: true,
           };
         }
 
-        const affectedTasks = tasks.filter((t) => t.decision_id === decision_id);
+        await appendAuditEntries(
+          [{ client: client_name, decision_id: '*', old_value: null, new_value: null, reason: `Restored from archive (${entry.archived})` }],
+          'restore',
+          author
+        );
+
+        Object.assign(clientDecisions, { [client_name]: entry.decisions }, entry.site_decisions);
+        await saveClientDecisions(clientDecisions);
+        if (entry.workflows || entry.site_workflows) {
+          Object.assign(clientWorkflows, entry.workflows ? { [client_name]: entry.workflows } : {}, entry.site_workflows);
+          await saveClientWorkflows(clientWorkflows);
+        }
+        if (entry.sites) {
+          const clientSites = await loadClientSites();
+          clientSites[client_name] = entry.sites;
+          await saveClientSites(clientSites);
+        }
+        if (entry.custom_tasks.length > 0) {
+          clientTasks[client_name] = entry.custom_tasks;
+          await saveClientTasks(clientTasks);
+        }
+        if (archivedDir && existsSync(archivedDir)) {
+          await fs.rename(archivedDir, exportsDir);
+        }
+        delete archive[client_name];
+        await saveClientArchive(archive);
 
         return {
           content: [
             {
               type: 'text',
-              text: `**${decision.id}** - ${decision.category}\n\nQuestion: ${decision.question}\n\nValid Outcomes:\n${decision.outcomes.map((o) => `  - ${o}`).join('\n')}\n\nStage: ${decision.stage}\nAffects: ${decision.affects}\nNotes: ${decision.notes}\n\nThis decision affects ${affectedTasks.length} task(s):\n${affectedTasks.map((t) => `  - ${t.id}: ${t.name} (when outcome = "${t.decision_outcome}")`).join('\n')}`,
+              text: `✅ Restored ${client_name} (${Object.keys(entry.decisions).length} decision(s))`,
             },
           ],
         };
       }
 
-      case 'save_client_decision': {
-        const { client_name, decision_id, selected_outcome, rationale } = args as {
-          client_name: string;
-          decision_id: string;
-          selected_outcome: string;
-          rationale?: string;
-        };
+      case 'get_client_decisions': {
+        const { client_name, site, product } = args as { client_name: string; site?: string; product?: string };
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+        const clientDecisions = await loadClientDecisions();
 
-        const decisions = await loadDecisions();
-        const decision = decisions.find((d) => d.id === decision_id);
+        const { answers: decisions, sources } = resolveScopedAnswers(clientDecisions, target);
+        const count = Object.keys(decisions).length;
 
-        if (!decision) {
+        if (count === 0) {
           return {
             content: [
               {
                 type: 'text',
-                text: `Error: Decision ${decision_id} not found`,
+                text: `No decisions configured yet for ${describeScope(target)}`,
               },
             ],
-            isError: true,
           };
         }
 
-        if (!decision.outcomes.includes(selected_outcome)) {
+        const formatted = Object.entries(decisions)
+          .map(([id, data]) => {
+            const source = describeAnswerSource(target, sources[id]);
+            return `  - **${id}**: ${formatSelectedOutcome(data)}${data.rationale ? ` (${data.rationale})` : ''} ${STATUS_LABELS[data.status || 'draft']}${source ? ` [${source}]` : ''}${data.change_request ? ` - change requested to "${[data.change_request.selected_outcome].flat().join(' + ')}"` : ''}`;
+          })
+          .join('\n');
+
+        const stale = findStaleAnswers(decisions, await loadDecisions(), await loadLibraryManifest());
+        const staleNote =
+          stale.length > 0
+            ? `\n\n⚠️ ${stale.length} answer(s) need migration (run \`migrate_client\`):\n${stale.map((s) => `  - ${s}`).join('\n')}`
+            : '';
+
+        // At client level, point to the sites that override it
+        let sitesNote = '';
+        if (!site) {
+          const sites = Object.keys((await loadClientSites())[client_name] || {});
+          if (sites.length > 0) {
+            sitesNote = `\n\nSites: ${sites
+              .map((s) => `${s} (${Object.keys(clientDecisions[[client_name, s].join(SCOPE_SEPARATOR)] || {}).length} override(s))`)
+              .join(', ')}`;
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Decisions for ${describeScope(target)} (${count} total):\n\n${formatted}${staleNote}${sitesNote}`,
+            },
+          ],
+        };
+      }
+
+      case 'migrate_client': {
+        const { client_name, confirm, author } = args as { client_name: string; confirm?: boolean; author: string };
+        const missingAuthor = authorError(author);
+        if (missingAuthor) {
+          return missingAuthor;
+        }
+        const clientDecisions = await loadClientDecisions();
+        // Site and product overrides are migrated with the client
+        const keys = clientScopeKeys(clientDecisions, client_name).filter(
+          (key) => Object.keys(clientDecisions[key]).length > 0
+        );
+
+        if (keys.length === 0) {
           return {
             content: [
               {
                 type: 'text',
-                text: `Error: Invalid outcome "${selected_outcome}". Valid options are: ${decision.outcomes.join(', ')}`,
+                text: `Error: No decisions configured for ${client_name}`,
               },
             ],
             isError: true,
           };
         }
 
-        const clientDecisions = await loadClientDecisions();
+        const manifest = await loadLibraryManifest();
+        const library = await loadDecisions();
+        const results = keys.map((key) => ({ key, ...migrateAnswers(clientDecisions[key], library, manifest, author) }));
+        const label = (key: string, line: string) =>
+          key === client_name ? line : `[${key.split(SCOPE_SEPARATOR).slice(1).join(' / ')}] ${line}`;
+        const changes = results.flatMap((r) => r.changes.map((c) => label(r.key, c)));
+        const needsDecision = results.flatMap((r) => r.needsDecision.map((n) => label(r.key, n)));
+        const requests = results.flatMap((r) =>
+          r.requested.map((id) => {
+            const answer = r.answers[id];
+            return {
+              line: label(r.key, `${id}: "${formatSelectedOutcome(answer)}" → "${[answer.change_request!.selected_outcome].flat().join(' + ')}"`),
+              change: {
+                client: r.key,
+                decision_id: id,
+                old_value: answer.selected_outcome,
+                new_value: answer.change_request!.selected_outcome,
+                reason: answer.change_request!.reason,
+              },
+            };
+          })
+        );
 
-        if (!clientDecisions[client_name]) {
-          clientDecisions[client_name] = {};
+        let report = `Migration of ${client_name} to library v${manifest.version}:\n\n`;
+        report +=
+          changes.length > 0
+            ? `Changes:\n${changes.map((c) => `  - ${c}`).join('\n')}`
+            : requests.length > 0
+              ? 'No unapproved answers change.'
+              : 'No renames or remaps apply.';
+        if (requests.length > 0) {
+          report += `\n\n🔒 Approved answers (each gets a change request; another person must approve it with \`approve_decisions\`):\n${requests.map((r) => `  - ${r.line}`).join('\n')}`;
+        }
+        if (needsDecision.length > 0) {
+          report += `\n\n⚠️ Needs a human to re-decide (left unchanged):\n${needsDecision.map((n) => `  - ${n}`).join('\n')}`;
         }
 
-        clientDecisions[client_name][decision_id] = {
-          selected_outcome,
-          rationale: rationale || '',
-          timestamp: new Date().toISOString(),
-        };
+        if (!confirm) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `${report}\n\nRun again with confirm: true to apply.`,
+              },
+            ],
+          };
+        }
 
+        await appendAuditEntries(
+          results.flatMap((r) =>
+            diffAnswers(r.key, clientDecisions[r.key], r.answers, `Migrated to library v${manifest.version}`)
+          ),
+          'migrate',
+          author
+        );
+        if (requests.length > 0) {
+          await appendAuditEntries(
+            requests.map((r) => r.change),
+            'change_request',
+            author
+          );
+        }
+        for (const r of results) {
+          clientDecisions[r.key] = r.answers;
+        }
         await saveClientDecisions(clientDecisions);
 
         return {
           content: [
             {
               type: 'text',
-              text: `✅ Saved: ${decision_id} = "${selected_outcome}" for ${client_name}`,
+              text: `✅ ${report}`,
             },
           ],
         };
       }
 
-      case 'get_client_decisions': {
-        const { client_name } = args as { client_name: string };
+      case 'list_clients': {
+        const { include_archived } = (args || {}) as { include_archived?: boolean };
         const clientDecisions = await loadClientDecisions();
+        const clients = Object.keys(clientDecisions).filter((key) => !key.includes(SCOPE_SEPARATOR));
+        const clientSites = await loadClientSites();
+        const archive = include_archived ? await loadClientArchive() : {};
+        const archivedNote =
+          Object.keys(archive).length > 0
+            ? `\n\nArchived clients:\n\n${Object.entries(archive)
+                .map(([name, entry]) => `  - ${name} (archived ${entry.archived}${entry.reason ? `: ${entry.reason}` : ''})`)
+                .join('\n')}`
+            : '';
+
+        if (clients.length === 0 && !archivedNote) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'No clients configured yet. Start by saving decisions for a new client.',
+              },
+            ],
+          };
+        }
 
-        const decisions = clientDecisions[client_name] || {};
-        const count = Object.keys(decisions).length;
+        const formatted = clients
+          .map((name) => {
+            const decisionCount = Object.keys(clientDecisions[name]).length;
+            const overrides = (key: string) => Object.keys(clientDecisions[key] || {}).length;
+            const sites = Object.entries(clientSites[name] || {}).map(([site, definition]) => {
+              const siteKey = [name, site].join(SCOPE_SEPARATOR);
+              const products = definition.products.map(
+                (p) => `\n      - Product ${p} (${overrides([siteKey, p].join(SCOPE_SEPARATOR))} overrides)`
+              );
+              return `\n    - Site ${site} (${overrides(siteKey)} overrides)${products.join('')}`;
+            });
+            return `  - ${name} (${decisionCount} decisions configured)${sites.join('')}`;
+          })
+          .join('\n');
 
-        if (count === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Configured clients${workspace === DEFAULT_WORKSPACE ? '' : ` in workspace "${workspace.name}"`}:\n\n${formatted || '  (none)'}${archivedNote}`,
+            },
+          ],
+        };
+      }
+
+      case 'switch_workspace': {
+        const { name: workspaceName, create = false } = args as { name: string; create?: boolean };
+
+        const target = resolveWorkspace(workspaceName);
+        if (typeof target === 'string') {
           return {
             content: [
               {
                 type: 'text',
-                text: `No decisions configured yet for ${client_name}`,
+                text: `Error: ${target}`,
               },
             ],
+            isError: true,
           };
         }
 
-        const formatted = Object.entries(decisions)
-          .map(
-            ([id, data]) =>
-              `  - **${id}**: ${data.selected_outcome}${data.rationale ? ` (${data.rationale})` : ''}`
-          )
-          .join('\n');
+        let created = false;
+        if (!existsSync(target.dataDir)) {
+          if (!create) {
+            const available = (await listWorkspaces()).map((w) => w.name).join(', ');
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Error: Workspace "${workspaceName}" does not exist. Available: ${available}. Pass create: true to create it.`,
+                },
+              ],
+              isError: true,
+            };
+          }
+          await createWorkspace(target);
+          created = true;
+        }
+
+        const previous = workspace.name;
+        await activateWorkspace(target);
+        const clients = Object.keys(await loadClientDecisions()).filter((key) => !key.includes(SCOPE_SEPARATOR));
 
         return {
           content: [
             {
               type: 'text',
-              text: `Decisions for ${client_name} (${count} total):\n\n${formatted}`,
+              text: `✅ ${created ? 'Created and switched to' : 'Switched to'} workspace "${target.name}" (was "${previous}")
+
+**Data:** ${target.dataDir}
+**Exports:** ${target.exportsDir}
+**Clients:** ${clients.length > 0 ? clients.join(', ') : 'none yet'}
+
+Every tool now reads and writes this workspace until the next switch or server restart.`,
             },
           ],
         };
       }
 
-      case 'list_clients': {
+      case 'list_workspaces': {
+        const formatted: string[] = [];
+        for (const w of await listWorkspaces()) {
+          const active = w.name === workspace.name;
+          const repo = active ? repository : await openRepository(STORAGE_BACKEND, w.dataDir);
+          try {
+            const clients = Object.keys(await repo.load<ClientDecisions>('client_decisions', {})).filter(
+              (key) => !key.includes(SCOPE_SEPARATOR)
+            );
+            formatted.push(
+              `  - ${w.name}${active ? ' ✅ (active)' : ''} - ${clients.length} client(s)\n    Data: ${w.dataDir}\n    Exports: ${w.exportsDir}`
+            );
+          } catch (error) {
+            formatted.push(`  - ${w.name}${active ? ' ✅ (active)' : ''} - ⚠️ ${error instanceof Error ? error.message : String(error)}`);
+          } finally {
+            if (!active) repo.close();
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Workspaces (named ones live in ${WORKSPACES_DIR}):\n\n${formatted.join('\n')}\n\nSwitch with \`switch_workspace\`.`,
+            },
+          ],
+        };
+      }
+
+      case 'get_readiness_report': {
+        const { client_name, site, product } = (args || {}) as { client_name?: string; site?: string; product?: string };
         const clientDecisions = await loadClientDecisions();
-        const clients = Object.keys(clientDecisions);
+        const library = await loadDecisions();
+        const manifest = await loadLibraryManifest();
+        const registry = await loadStages();
+
+        let scopes: ClientScope[];
+        if (client_name) {
+          const target = await resolveClientScope(client_name, site, product);
+          if (typeof target === 'string') {
+            return scopeError(target);
+          }
+          scopes = [target];
+        } else {
+          // Every client and every site or product with its own answers
+          scopes = Object.keys(clientDecisions).map((key) => {
+            const [client, scopeSite, scopeProduct] = key.split(SCOPE_SEPARATOR);
+            return buildClientScope(client, scopeSite, scopeProduct);
+          });
+        }
 
-        if (clients.length === 0) {
+        if (scopes.length === 0) {
           return {
             content: [
               {
@@ -1524,113 +5859,133 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
-        const formatted = clients
-          .map((name) => {
-            const decisionCount = Object.keys(clientDecisions[name]).length;
-            return `  - ${name} (${decisionCount} decisions configured)`;
-          })
-          .join('\n');
+        const reports: string[] = [];
+        for (const target of scopes) {
+          const { answers } = resolveScopedAnswers(clientDecisions, target);
+          const allTasks = await loadClientTaskLibrary(target.client);
+          const assess = (label: string, stages: string[]) => assessReadiness(label, stages, answers, library, manifest, allTasks);
+
+          const rows = [assess('**All stages**', getStageOrder(registry))];
+          for (const family of registry.families) {
+            rows.push(assess(`**${family.display_name}**`, family.stages.map((s) => s.name)));
+            // Stage detail only when looking at a single client
+            if (client_name) {
+              rows.push(...family.stages.map((s) => assess(`↳ ${s.display_name}`, [s.name])));
+            }
+          }
+
+          reports.push(
+            `### ${describeScope(target)}\n\n| Scope | Answered | No rationale | Conflicts | Validation |\n|---|---|---|---|---|\n${rows
+              .map(formatReadinessRow)
+              .join('\n')}`
+          );
+        }
 
         return {
           content: [
             {
               type: 'text',
-              text: `Configured clients:\n\n${formatted}`,
+              text: `## Configuration Readiness\n\n${reports.join('\n\n')}\n\n**Answered** counts applicable Practice decisions only. **Conflicts** are answers to decisions whose \`applies_when\` conditions are not met. **Validation** is \`validate_workflow\` for that scope; info messages do not fail it.`,
             },
           ],
         };
       }
 
       case 'get_unanswered_decisions': {
-        const { client_name, stage } = args as { client_name: string; stage?: string };
+        const { client_name, site, product, stage } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          stage?: string;
+        };
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
         const decisions = await loadDecisions();
         const clientDecisions = await loadClientDecisions();
 
-        const answered = clientDecisions[client_name] || {};
+        const { answers: answered } = resolveScopedAnswers(clientDecisions, target);
         const answeredIds = Object.keys(answered);
 
         let practiceDecisions = decisions.filter((d) => d.category === 'Practice');
 
         if (stage) {
-          practiceDecisions = practiceDecisions.filter((d) => d.stage === stage);
+          practiceDecisions = practiceDecisions.filter((d) => decisionAppliesToStage(d, stage));
         }
 
-        const unanswered = practiceDecisions.filter((d) => !answeredIds.includes(d.id));
+        // Decisions whose conditions are not met are hidden rather than asked
+        const unanswered = practiceDecisions.filter(
+          (d) => !answeredIds.includes(d.id) && isDecisionApplicable(d, answered, decisions)
+        );
 
         if (unanswered.length === 0) {
           return {
             content: [
               {
                 type: 'text',
-                text: `All Practice decisions have been answered for ${client_name}${stage ? ` in stage "${stage}"` : ''}! Ready to generate workflow.`,
+                text: `All Practice decisions have been answered for ${describeScope(target)}${stage ? ` in stage "${stage}"` : ''}! Ready to generate workflow.`,
               },
             ],
           };
         }
 
         const formatted = unanswered
-          .map((d) => `  - **${d.id}**: ${d.question}\n    Outcomes: ${d.outcomes.join(', ')}`)
+          .map(
+            (d) =>
+              `  - **${d.id}**: ${d.question}\n    Outcomes: ${d.outcomes.join(', ')}${d.recommended ? `\n    Recommended: ${d.recommended.outcome}` : ''}`
+          )
           .join('\n\n');
 
         return {
           content: [
             {
               type: 'text',
-              text: `Unanswered Practice decisions for ${client_name} (${unanswered.length} remaining):\n\n${formatted}`,
+              text: `Unanswered Practice decisions for ${describeScope(target)} (${unanswered.length} remaining):\n\n${formatted}`,
             },
           ],
         };
       }
 
       case 'validate_workflow': {
-        const { client_name, stage } = args as { client_name: string; stage: string };
-
-        const clientDecisions = await loadClientDecisions();
-        const decisions = clientDecisions[client_name] || {};
-        const allTasks = await loadTasks();
+        const { client_name, site, product, stage } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          stage: string;
+        };
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
 
-        // Filter tasks using helper function
-        let filteredTasks = allTasks.filter((task) => {
-          if (stage !== 'All' && task.stage !== stage) return false;
-          return shouldIncludeTask(task, decisions);
-        });
+        const { answers } = resolveScopedAnswers(await loadClientDecisions(), target);
+        const allTasks = await loadClientTaskLibrary(client_name);
+        const registry = await loadStages();
 
-        const includedTaskIds = new Set(filteredTasks.map((t) => t.id));
-        const issues: string[] = [];
-
-        // Check for orphaned nodes
-        for (const task of filteredTasks) {
-          if (task.predecessors && task.predecessors.length > 0) {
-            const hasValidPredecessor = task.predecessors.some((pred) => includedTaskIds.has(pred));
-
-            if (!hasValidPredecessor) {
-              const closestAncestor = findClosestIncludedAncestor(task, allTasks, includedTaskIds);
-              if (!closestAncestor) {
-                issues.push(`⚠️ ${task.id} (${task.name}) has no valid predecessors - orphaned node`);
-              } else {
-                issues.push(
-                  `ℹ️ ${task.id} linked to distant ancestor ${closestAncestor} (immediate predecessors excluded)`
-                );
-              }
-            }
-          }
+        const scope = resolveWorkflowScope(registry, stage);
+        if (!scope) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Unknown stage "${stage}". Valid options are:\n\n${describeWorkflowScopes(registry)}`,
+              },
+            ],
+            isError: true,
+          };
         }
+        const scopeStages = scope.sections.flatMap((section) => section.stages);
 
-        // Check for missing loop back edges
-        const loopEnds = filteredTasks.filter((t) => t.type === 'Loop-End');
-        for (const loopEnd of loopEnds) {
-          const loopStartId = findLoopStart(loopEnd.id);
-          if (!includedTaskIds.has(loopStartId)) {
-            issues.push(`⚠️ ${loopEnd.id} loop end exists but ${loopStartId} loop start is missing`);
-          }
-        }
+        const library = await loadDecisions();
+        const issues = validateWorkflow(allTasks, scopeStages, answers, library, await loadLibraryManifest());
 
         if (issues.length === 0) {
           return {
             content: [
               {
                 type: 'text',
-                text: `✅ Workflow validation passed for ${client_name} - ${stage}\n\nNo structural issues found. All nodes are properly connected.`,
+                text: `✅ Workflow validation passed for ${describeScope(target)} - ${stage}\n\nNo structural issues found. All nodes are properly connected.`,
               },
             ],
           };
@@ -1640,7 +5995,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           content: [
             {
               type: 'text',
-              text: `Workflow validation for ${client_name} - ${stage}:\n\n${issues.join('\n')}\n\n${issues.filter((i) => i.startsWith('⚠️')).length} warnings, ${issues.filter((i) => i.startsWith('ℹ️')).length} info messages`,
+              text: `Workflow validation for ${describeScope(target)} - ${stage}:\n\n${issues.join('\n')}\n\n${issues.filter((i) => i.startsWith('⚠️')).length} warnings, ${issues.filter((i) => i.startsWith('ℹ️')).length} info messages`,
             },
           ],
         };
@@ -1648,178 +6003,194 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
       // Replace the existing 'generate_workflow' case in the CallToolRequestSchema handler
 
-      case 'generate_workflow': {
-        const { client_name, stage } = args as { client_name: string; stage: string };
+      case 'generate_workflow': {
+        const { client_name, site, product, stage, defaults = 'mark', baseline = false, from_version } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          stage: string;
+          defaults?: 'mark' | 'apply' | 'fail';
+          baseline?: boolean;
+          from_version?: number;
+        };
+
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+
+        // Re-issue a saved version from its stored graph, regardless of current answers and library
+        if (from_version !== undefined) {
+          const clientWorkflows = await loadClientWorkflows();
+          const versions = clientWorkflows[target.key]?.[stage] || [];
+          const source = versions.find((w) => w.version === from_version);
+          if (!source) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Error: Version ${from_version} not found for ${describeScope(target)} - ${stage}. Saved versions: ${versions.map((w) => w.version).join(', ') || 'none'}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+          if (!source.graph || !source.decisions) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Error: v${from_version} predates stored workflow graphs and cannot be regenerated exactly. Generate from current decisions instead.`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          const mermaid = generateBeautifulMermaidDiagram(source.graph, source.decisions);
+          const version = versions[versions.length - 1].version + 1;
+          versions.push({ ...source, last_generated: new Date().toISOString(), version, mermaid_code: mermaid });
+          await saveClientWorkflows(clientWorkflows);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `## Workflow Regenerated for ${describeScope(target)} - ${source.stage}
+
+**✅ Saved as Version ${version} of ${stage}, rebuilt from v${from_version}**
+
+- Library version: v${source.library_version || 1}
+- Decisions: snapshot from ${source.last_generated}
+- Tasks: ${source.metadata.task_count}, edges: ${source.graph.edges.length}, re-linked: ${Object.keys(source.graph.relinks).length}
+
+Current answers and the current task library were not used.
+
+\`\`\`mermaid
+${mermaid}
+\`\`\``,
+              },
+            ],
+          };
+        }
+
+        const { answers, sources } = resolveScopedAnswers(await loadClientDecisions(), target);
+
+        if (Object.keys(answers).length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Cannot generate workflow: No decisions configured for ${describeScope(target)}. Please answer decision questions first.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const allTasks = await loadClientTaskLibrary(client_name);
+        const library = await loadDecisions();
 
-        const clientDecisions = await loadClientDecisions();
-        const decisions = clientDecisions[client_name] || {};
+        const registry = await loadStages();
 
-        if (Object.keys(decisions).length === 0) {
+        const scope = resolveWorkflowScope(registry, stage);
+        if (!scope) {
           return {
             content: [
               {
                 type: 'text',
-                text: `Cannot generate workflow: No decisions configured for ${client_name}. Please answer decision questions first.`,
+                text: `Error: Unknown stage "${stage}". Valid options are:\n\n${describeWorkflowScopes(registry)}`,
               },
             ],
             isError: true,
           };
         }
 
-        const allTasks = await loadTasks();
+        const workflowType = scope.workflowType;
+        const scopeStages = scope.sections.flatMap((section) => section.stages);
 
-        // Define stage groups
-        const granulationStages = [
-          'Pre-Granulation',
-          'Material Transfer & Verification',
-          'Binder Preparation',
-          'Granulation',
-          'Post-Granulation',
-          'Closeout'
-        ];
-        
-        const dispensingStages = [
-          'Pre-Dispensing',
-          'Material Allocation',
-          'Weighing & Dispensing',
-          'Labeling & Documentation',
-          'Post-Dispensing'
-        ];
+        // Unanswered decisions fall back to their recommended outcome; answers to
+        // decisions whose conditions are not met do not shape the workflow
+        // A baseline uses approved answers only and never assumes defaults
+        const source = baseline ? approvedAnswers(answers) : answers;
+        const { decisions, assumed, unanswered } = applyRecommendedDefaults(source, library, scopeStages, !baseline);
+        const ignored = Object.keys(source).filter((id) => !decisions[id]);
+        const notApproved = baseline ? Object.keys(answers).filter((id) => !source[id]) : [];
+        const manifest = await loadLibraryManifest();
+        const stale = findStaleAnswers(answers, library, manifest);
 
-        let mermaid: string;
-        let workflowType: string;
-        let filteredTasks: Task[];
-
-        // Determine workflow type based on stage parameter
-        if (stage === 'All') {
-          // Generate BOTH Dispensing AND Granulation workflows combined
-          workflowType = 'Complete (Dispensing + Granulation)';
-          
-          filteredTasks = allTasks.filter((task) => {
-            return shouldIncludeTask(task, decisions);
-          });
-          
-          // Generate Dispensing part
-          const dispensingTasks = filteredTasks.filter(t => dispensingStages.includes(t.stage));
-          const dispensingMermaid = generateBeautifulMermaidDiagram(dispensingTasks, allTasks, decisions, client_name);
-          
-          // Generate Granulation part
-          const granulationTasks = filteredTasks.filter(t => granulationStages.includes(t.stage));
-          const granulationMermaid = generateGranulationWorkflow(granulationTasks, allTasks, decisions, client_name);
-          
-          // Combine them (remove duplicate headers from second diagram)
-          const granulationBody = granulationMermaid.split('\n').slice(9).join('\n'); // Skip header and class definitions
-          mermaid = dispensingMermaid.replace(/COMPLETE\([🎉 DISPENSING COMPLETE]\)[\s\S]*$/, '') + 
-                    '\n\n' +
-                    '  DISP_COMPLETE([🎉 DISPENSING COMPLETE])\n' +
-                    '  style DISP_COMPLETE fill:#4caf50,stroke:#2e7d32,stroke-width:4px,color:#ffffff,font-weight:bold,font-size:18px\n' +
-                    '  T055 ==> DISP_COMPLETE\n\n' +
-                    '  DISP_COMPLETE ==> START_GRAN\n' +
-                    '  START_GRAN([🔗 BEGIN GRANULATION])\n' +
-                    '  style START_GRAN fill:#ff9800,stroke:#e65100,stroke-width:4px,color:#ffffff,font-weight:bold,font-size:18px\n\n' +
-                    granulationBody;
-                    
-        } else if (stage === 'Complete-Dispensing') {
-          // Generate ONLY complete Dispensing workflow (all dispensing stages)
-          workflowType = 'Complete Dispensing Workflow';
-          
-          filteredTasks = allTasks.filter((task) => {
-            if (!dispensingStages.includes(task.stage)) {
-              return false;
-            }
-            return shouldIncludeTask(task, decisions);
-          });
-          
-          mermaid = generateBeautifulMermaidDiagram(filteredTasks, allTasks, decisions, client_name);
-          
-        } else if (stage === 'Complete-Granulation') {
-          // Generate ONLY complete Granulation workflow (all granulation stages)
-          workflowType = 'Complete Granulation Workflow';
-          
-          filteredTasks = allTasks.filter((task) => {
-            if (!granulationStages.includes(task.stage)) {
-              return false;
-            }
-            return shouldIncludeTask(task, decisions);
-          });
-          
-          mermaid = generateGranulationWorkflow(filteredTasks, allTasks, decisions, client_name);
-          
-        } else if (granulationStages.includes(stage)) {
-          // Generate specific Granulation stage
-          workflowType = `Granulation - ${stage}`;
-          
-          filteredTasks = allTasks.filter((task) => {
-            if (task.stage !== stage) {
-              return false;
-            }
-            return shouldIncludeTask(task, decisions);
-          });
-          
-          mermaid = generateGranulationWorkflow(filteredTasks, allTasks, decisions, client_name);
-          
-        } else if (dispensingStages.includes(stage)) {
-          // Generate specific Dispensing stage
-          workflowType = `Dispensing - ${stage}`;
-          
-          filteredTasks = allTasks.filter((task) => {
-            if (task.stage !== stage) {
-              return false;
-            }
-            return shouldIncludeTask(task, decisions);
-          });
-          
-          mermaid = generateBeautifulMermaidDiagram(filteredTasks, allTasks, decisions, client_name);
-          
-        } else {
+        if (defaults === 'fail' && assumed.length > 0) {
           return {
             content: [
               {
                 type: 'text',
-                text: `Error: Unknown stage "${stage}". Valid options are:
-
-      **Complete Workflows:**
-      - "All" - Both Dispensing + Granulation combined
-      - "Complete-Dispensing" - All Dispensing stages only
-      - "Complete-Granulation" - All Granulation stages only
-
-      **Individual Dispensing Stages:**
-      ${dispensingStages.map(s => `- "${s}"`).join('\n')}
-
-      **Individual Granulation Stages:**
-      ${granulationStages.map(s => `- "${s}"`).join('\n')}`,
+                text: `Cannot generate workflow: ${assumed.length} decision(s) for ${describeScope(target)} are unanswered and would be defaulted:\n\n${assumed
+                  .map((a) => `  - ${a.decision_id} (recommended: "${a.outcome}")`)
+                  .join('\n')}\n\nAnswer them with \`save_client_decision\` or regenerate with defaults: "mark".`,
               },
             ],
             isError: true,
           };
         }
 
+        const sections = buildDiagramSections(scope, allTasks, decisions);
+        const filteredTasks = sections.flatMap((section) => section.tasks);
+
+        const assumedIds = new Set(defaults === 'mark' ? assumed.map((a) => a.decision_id) : []);
+        const graph = buildWorkflowGraph(sections, allTasks, library, assumedIds);
+        const mermaid = generateBeautifulMermaidDiagram(graph, decisions);
+
         // Calculate metadata
-        const metadata: WorkflowMetadata = {
-          task_count: filteredTasks.length,
-          decision_count: Object.keys(decisions).length,
-          macro_count: filteredTasks.filter((t) => t.type === 'Macro').length,
-          loop_count: filteredTasks.filter((t) => t.type.includes('Loop')).length,
-        };
+        const metadata = computeWorkflowMetadata(filteredTasks, decisions, assumed);
 
-        // Load existing workflows and update
+        // Every version is kept, numbered per stage scope
         const clientWorkflows = await loadClientWorkflows();
-        const existingVersion = clientWorkflows[client_name]?.version || 0;
+        const history = (clientWorkflows[target.key] ??= {});
+        const versions = (history[stage] ??= []);
+        const existingVersion = versions.length > 0 ? versions[versions.length - 1].version : 0;
 
-        clientWorkflows[client_name] = {
+        versions.push({
           last_generated: new Date().toISOString(),
           stage: workflowType,
           version: existingVersion + 1,
           mermaid_code: mermaid,
           metadata: metadata,
-        };
+          library_version: manifest.version,
+          baseline,
+          decisions,
+          graph,
+        });
 
         await saveClientWorkflows(clientWorkflows);
 
+        const clientAnswers = Object.entries(decisions).filter(([id]) => answers[id]);
+
+        // Every default that shaped the diagram is listed so the client can confirm or change it
+        let assumedSummary = '';
+        if (target.chain.length > 1) {
+          const { level } = target.chain[target.chain.length - 1];
+          const overridden = Object.keys(answers).filter((id) => sources[id] === level);
+          assumedSummary += `\n      **Overridden at ${level} (${overridden.length}):** ${overridden.join(', ') || 'none'}; all other answers are inherited\n`;
+        }
+        if (notApproved.length > 0) {
+          assumedSummary += `\n      **🔒 Baseline: ${notApproved.length} unapproved answer(s) excluded:** ${notApproved.join(', ')}\n`;
+        }
+        if (assumed.length > 0) {
+          assumedSummary += `\n      **⚠️ Assumed Defaults (${assumed.length}) - not answered by the client:**\n`;
+          assumedSummary += assumed.map((a) => `      - ${a.decision_id} = "${a.outcome}"`).join('\n') + '\n';
+        }
+        if (unanswered.length > 0) {
+          assumedSummary += `\n      **Unanswered without a default (${unanswered.length}):** ${unanswered.join(', ')}\n`;
+        }
+        if (stale.length > 0) {
+          assumedSummary += `\n      **⚠️ Answers needing migration to library v${manifest.version} (run \`migrate_client\`):**\n`;
+          assumedSummary += stale.map((s) => `      - ${s}`).join('\n') + '\n';
+        }
+
         // Create summary
-        const summary = `## Workflow Generated for ${client_name} - ${workflowType}
+        const summary = `## ${baseline ? 'Baseline ' : ''}Workflow Generated for ${describeScope(target)} - ${workflowType}
 
-      **✅ Auto-saved to client_workflows.json (Version ${clientWorkflows[client_name].version})**
+      **✅ Auto-saved to client_workflows.json (Version ${existingVersion + 1} of ${stage})**
 
       **Configuration Summary:**
       - Total tasks in library: ${allTasks.length}
@@ -1827,15 +6198,20 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         - Macro stages: ${metadata.macro_count}
         - Micro tasks: ${metadata.task_count - metadata.macro_count - metadata.loop_count}
         - Loop constructs: ${metadata.loop_count}
+        - Client-specific tasks: ${filteredTasks.filter(isCustomTask).length}
 
       **Applied Decisions (${metadata.decision_count}):**
-      ${Object.entries(decisions)
+      ${clientAnswers
         .slice(0, 10)
-        .map(([id, data]) => `- ${id} = "${data.selected_outcome}"`)
-        .join('\n')}${Object.keys(decisions).length > 10 ? `\n... and ${Object.keys(decisions).length - 10} more` : ''}
+        .map(([id, data]) => {
+          const source = describeAnswerSource(target, sources[id]);
+          return `- ${id} = "${formatSelectedOutcome(data)}"${source ? ` (${source})` : ''}`;
+        })
+        .join('\n')}${clientAnswers.length > 10 ? `\n... and ${clientAnswers.length - 10} more` : ''}${ignored.length > 0 ? `\n\n      **Ignored (not applicable):** ${ignored.join(', ')}` : ''}
+${assumedSummary}
 
       **Features in v3.0:**
-      ✅ Support for Dispensing and Granulation stages (11 total stages)
+      ✅ Support for ${registry.families.map((f) => f.display_name).join(' and ')} stages (${getStageOrder(registry).length} total stages)
       ✅ Beautiful enhanced UI with emojis and professional colors
       ✅ Clear START 🏁 and COMPLETE 🎉 nodes
       ✅ Visual hierarchy with blue macros and purple loops
@@ -1865,36 +6241,188 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'preview_decision_impact': {
+        const { client_name, site, product, decision_id, selected_outcome, stage = 'All' } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          decision_id: string;
+          selected_outcome: string | string[];
+          stage?: string;
+        };
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+
+        const library = await loadDecisions();
+        const decision = library.find((d) => d.id === decision_id);
+        if (!decision) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Decision ${decision_id} not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const selection = parseSelectedOutcome(decision, selected_outcome);
+        if ('error' in selection) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${selection.error}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const registry = await loadStages();
+        const scope = resolveWorkflowScope(registry, stage);
+        if (!scope) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Unknown stage "${stage}". Valid options are:\n\n${describeWorkflowScopes(registry)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        const scopeStages = scope.sections.flatMap((section) => section.stages);
+
+        // Both sides are built exactly as generate_workflow would, defaults included
+        const { answers } = resolveScopedAnswers(await loadClientDecisions(), target);
+        const proposed = {
+          ...answers,
+          [decision_id]: { selected_outcome: selection.value, rationale: '', timestamp: new Date().toISOString() },
+        };
+        const allTasks = await loadClientTaskLibrary(target.client);
+        const analyze = (source: { [key: string]: ClientDecision }) => {
+          const { decisions, assumed } = applyRecommendedDefaults(source, library, scopeStages);
+          const sections = buildDiagramSections(scope, allTasks, decisions);
+          const graph = buildWorkflowGraph(sections, allTasks, library, new Set(assumed.map((a) => a.decision_id)));
+          return analyzeWorkflow(graph, decisions, assumed);
+        };
+        const before = analyze(answers);
+        const after = analyze(proposed);
+
+        const describeTask = (task: Task) => `${task.id} (${task.name})`;
+        const entering = [...after.tasks.values()].filter((t) => !before.tasks.has(t.id)).map(describeTask);
+        const leaving = [...before.tasks.values()].filter((t) => !after.tasks.has(t.id)).map(describeTask);
+        const relinked: string[] = [];
+        for (const [id, ancestor] of after.relinks) {
+          if (before.relinks.get(id) !== ancestor) {
+            relinked.push(`${id} now linked to ${ancestor} (immediate predecessors excluded)`);
+          }
+        }
+        for (const id of before.relinks.keys()) {
+          if (after.tasks.has(id) && !after.relinks.has(id)) {
+            relinked.push(`${id} linked to its immediate predecessors again`);
+          }
+        }
+        const added = <T>(from: Set<T>, to: Set<T>) => [...to].filter((x) => !from.has(x));
+
+        const { ignored: mootBefore } = filterApplicableDecisions(answers, library);
+        const { ignored: mootAfter } = filterApplicableDecisions(proposed, library);
+
+        const list = (title: string, items: unknown[]) =>
+          items.length > 0 ? `\n**${title} (${items.length}):**\n${items.map((i) => `- ${i}`).join('\n')}\n` : '';
+        const count = (label: string, key: 'task_count' | 'decision_count' | 'macro_count' | 'loop_count') => {
+          const delta = after.metadata[key] - before.metadata[key];
+          return `- ${label}: ${before.metadata[key]} → ${after.metadata[key]}${delta !== 0 ? ` (${delta > 0 ? '+' : ''}${delta})` : ''}`;
+        };
+
+        const sections = [
+          list('Tasks entering the workflow', entering),
+          list('Tasks leaving the workflow', leaving),
+          list('Re-linked edges', relinked),
+          list('Loops appearing', added(before.loops, after.loops)),
+          list('Loops disappearing', added(after.loops, before.loops)),
+          list('Decision diamonds appearing', added(new Set(before.diamonds.keys()), new Set(after.diamonds.keys()))),
+          list('Decision diamonds disappearing', added(new Set(after.diamonds.keys()), new Set(before.diamonds.keys()))),
+          list('Answers that become moot', mootAfter.filter((id) => !mootBefore.includes(id))),
+          list('Answers that apply again', mootBefore.filter((id) => !mootAfter.includes(id))),
+        ].join('');
+
+        const current = answers[decision_id];
+        const lockNote =
+          current?.status === 'approved'
+            ? `\n🔒 ${decision_id} is approved; making this change needs \`request_decision_change\`.\n`
+            : '';
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `## Impact Preview for ${describeScope(target)} - ${scope.workflowType}
+
+**${decision_id}:** "${formatSelectedOutcome(current) || '(unanswered)'}" → "${[selection.value].flat().join(' + ')}"
+${sections || '\nNo change to the workflow.\n'}
+**Metadata:**
+${count('Tasks', 'task_count')}
+${count('Decisions', 'decision_count')}
+${count('Macro stages', 'macro_count')}
+${count('Loop constructs', 'loop_count')}
+- Assumed defaults: ${before.metadata.assumed_decisions?.length || 0} → ${after.metadata.assumed_decisions?.length || 0}
+${lockNote}
+Nothing was saved. Use \`save_client_decision\` to make the change.`,
+            },
+          ],
+        };
+      }
+
       case 'get_saved_workflow': {
-        const { client_name } = args as { client_name: string };
+        const { client_name, site, product, stage, version } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          stage?: string;
+          version?: number;
+        };
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
         const clientWorkflows = await loadClientWorkflows();
 
-        const workflow = clientWorkflows[client_name];
+        const found = findSavedWorkflow(clientWorkflows[target.key], stage, version);
 
-        if (!workflow) {
+        if (!found) {
           return {
             content: [
               {
                 type: 'text',
-                text: `No saved workflow found for ${client_name}. Generate a workflow first using \`generate_workflow\`.`,
+                text: `No saved workflow found for ${describeScope(target)}${stage ? ` - ${stage}` : ''}${version !== undefined ? ` version ${version}` : ''}. Generate a workflow first using \`generate_workflow\`, or see \`list_workflow_versions\`.`,
               },
             ],
             isError: true,
           };
         }
 
-        const summary = `## Saved Workflow for ${client_name}
+        const { workflow } = found;
+        const latest = clientWorkflows[target.key][found.stage].slice(-1)[0].version;
+        const manifest = await loadLibraryManifest();
+        const summary = `## Saved Workflow for ${describeScope(target)}
 
 **Last Generated:** ${new Date(workflow.last_generated).toLocaleString()}
 **Stage:** ${workflow.stage}
-**Version:** ${workflow.version}
+**Version:** ${workflow.version}${workflow.version < latest ? ` (latest is ${latest})` : ''}${workflow.baseline ? ' (baseline - approved decisions only)' : ''}
+**Library Version:** v${workflow.library_version || 1}${(workflow.library_version || 1) < manifest.version ? ` (library is now v${manifest.version} - regenerate after \`migrate_client\`)` : ''}
 
 **Metadata:**
 - Tasks: ${workflow.metadata.task_count}
 - Decisions: ${workflow.metadata.decision_count}
 - Macro Stages: ${workflow.metadata.macro_count}
 - Loop Constructs: ${workflow.metadata.loop_count}
-
+- Graph: ${workflow.graph ? `${workflow.graph.edges.length} edges, ${Object.keys(workflow.graph.relinks).length} re-linked${Object.keys(workflow.graph.relinks).length > 0 ? ` (${Object.entries(workflow.graph.relinks).map(([id, ancestor]) => `${id} ← ${ancestor}`).join(', ')})` : ''}` : 'not stored (predates stored graphs)'}
+${workflow.metadata.assumed_decisions?.length ? `\n**⚠️ Assumed Defaults (${workflow.metadata.assumed_decisions.length}):**\n${workflow.metadata.assumed_decisions.map((a) => `- ${a.decision_id} = "${a.outcome}"`).join('\n')}\n` : ''}
 **Workflow Diagram:**
 
 \`\`\`mermaid
@@ -1902,7 +6430,8 @@ ${workflow.mermaid_code}
 \`\`\`
 
 **Actions:**
-- Regenerate: Use \`generate_workflow\` to update
+- Regenerate: Use \`generate_workflow\` to update${workflow.graph ? `, or with from_version: ${workflow.version} to re-issue this version exactly` : ''}
+- History: Use \`list_workflow_versions\` to see every saved version
 - Export: Use \`export_workflow\` to create PNG file`;
 
         return {
@@ -1915,58 +6444,343 @@ ${workflow.mermaid_code}
         };
       }
 
+      case 'list_workflow_versions': {
+        const { client_name, site, product, stage } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          stage?: string;
+        };
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+        const history = (await loadClientWorkflows())[target.key] || {};
+        const stages = Object.keys(history).filter((s) => !stage || s === stage);
+
+        if (stages.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No saved workflows for ${describeScope(target)}${stage ? ` - ${stage}` : ''}. Generate one with \`generate_workflow\`.`,
+              },
+            ],
+          };
+        }
+
+        const formatted = stages
+          .map(
+            (s) =>
+              `**${s}** (${history[s].length} version(s)):\n${history[s]
+                .map(
+                  (w) =>
+                    `  - v${w.version} - ${w.last_generated} - ${w.metadata.task_count} tasks, library v${w.library_version || 1}${w.baseline ? ' (baseline)' : ''}`
+                )
+                .join('\n')}`
+          )
+          .join('\n\n');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Saved workflows for ${describeScope(target)}:\n\n${formatted}\n\nOpen one with \`get_saved_workflow\` or \`export_workflow\` and its stage and version.`,
+            },
+          ],
+        };
+      }
+
+      case 'diff_workflows': {
+        const { client_name, site, product, stage, from_version, to_version } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          stage: string;
+          from_version: number;
+          to_version?: number;
+        };
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+
+        const registry = await loadStages();
+        const scope = resolveWorkflowScope(registry, stage);
+        if (!scope) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Unknown stage "${stage}". Valid options are:\n\n${describeWorkflowScopes(registry)}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const versions = (await loadClientWorkflows())[target.key]?.[stage] || [];
+        const from = versions.find((w) => w.version === from_version);
+        const to = to_version === undefined ? undefined : versions.find((w) => w.version === to_version);
+        if (!from || (to_version !== undefined && !to)) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Version ${!from ? from_version : to_version} not found for ${describeScope(target)} - ${stage}. Saved versions: ${versions.map((w) => w.version).join(', ') || 'none'}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // Versions saved before decision snapshots cannot be rebuilt
+        const unsnapshotted = [from, to].filter((w) => w && !w.decisions).map((w) => `v${w!.version}`);
+        if (unsnapshotted.length > 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: ${unsnapshotted.join(' and ')} ${unsnapshotted.length > 1 ? 'predate' : 'predates'} decision snapshots and cannot be compared. Regenerate with \`generate_workflow\` and compare newer versions.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const library = await loadDecisions();
+        const allTasks = await loadClientTaskLibrary(target.client);
+        const scopeStages = scope.sections.flatMap((section) => section.stages);
+
+        const fromDecisions = from.decisions!;
+        let toDecisions: { [key: string]: ClientDecision };
+        let toAssumed: AssumedDecision[];
+        if (to) {
+          toDecisions = to.decisions!;
+          toAssumed = to.metadata.assumed_decisions || [];
+        } else {
+          const { answers } = resolveScopedAnswers(await loadClientDecisions(), target);
+          ({ decisions: toDecisions, assumed: toAssumed } = applyRecommendedDefaults(answers, library, scopeStages));
+        }
+        const toLabel = to ? `v${to.version}` : 'current decisions';
+
+        // Saved versions are compared as they were stored; older ones are rebuilt from the current library
+        const analyze = (decisions: { [key: string]: ClientDecision }, assumed: AssumedDecision[], graph?: WorkflowGraph) =>
+          analyzeWorkflow(
+            graph ||
+              buildWorkflowGraph(
+                buildDiagramSections(scope, allTasks, decisions),
+                allTasks,
+                library,
+                new Set(assumed.map((a) => a.decision_id))
+              ),
+            decisions,
+            assumed
+          );
+        const before = analyze(fromDecisions, from.metadata.assumed_decisions || [], from.graph);
+        const after = analyze(toDecisions, toAssumed, to?.graph);
+
+        const sameAnswer = (a?: ClientDecision, b?: ClientDecision) =>
+          JSON.stringify(selectedOutcomes(a).sort()) === JSON.stringify(selectedOutcomes(b).sort());
+        const changed = [...new Set([...Object.keys(fromDecisions), ...Object.keys(toDecisions)])].filter(
+          (id) => !sameAnswer(fromDecisions[id], toDecisions[id])
+        );
+
+        // A change is attributed to the changed decisions gating the tasks involved
+        const taskById = new Map(allTasks.map((t) => [t.id, t]));
+        for (const [id, task] of [...before.tasks, ...after.tasks]) {
+          taskById.set(id, task);
+        }
+        const causedBy = (taskIds: string[], extra: string[] = []) => {
+          const ids = [...taskIds.map((id) => taskById.get(id)?.decision_id), ...extra].filter(
+            (id): id is string => !!id && changed.includes(id)
+          );
+          return ids.length > 0 ? ` ← ${[...new Set(ids)].join(', ')}` : '';
+        };
+        const edgeCause = (edge: string) => {
+          const [fromId, toId] = edge.split(' → ');
+          return causedBy([fromId, toId, ...(taskById.get(toId)?.predecessors || [])]);
+        };
+        const diamondCause = (label: string, diamonds: WorkflowAnalysis['diamonds']) => {
+          const diamond = diamonds.get(label)!;
+          return causedBy([diamond.after], [diamond.decision_id]);
+        };
+
+        const addedTasks = [...after.tasks.keys()].filter((id) => !before.tasks.has(id));
+        const removedTasks = [...before.tasks.keys()].filter((id) => !after.tasks.has(id));
+        const list = (title: string, items: string[]) =>
+          items.length > 0 ? `\n**${title} (${items.length}):**\n${items.map((i) => `- ${i}`).join('\n')}\n` : '';
+        const describeTask = (id: string) => `${id} (${taskById.get(id)?.name || 'not in the library'})${causedBy([id])}`;
+
+        const report = [
+          list(
+            'Decisions changed',
+            changed.map(
+              (id) =>
+                `${id}: "${formatSelectedOutcome(fromDecisions[id]) || '(none)'}" → "${formatSelectedOutcome(toDecisions[id]) || '(none)'}"`
+            )
+          ),
+          list('Tasks added', addedTasks.map(describeTask)),
+          list('Tasks removed', removedTasks.map(describeTask)),
+          list(
+            'Edges added',
+            [...after.edges].filter((e) => !before.edges.has(e)).map((e) => `${e}${edgeCause(e)}`)
+          ),
+          list(
+            'Edges removed',
+            [...before.edges].filter((e) => !after.edges.has(e)).map((e) => `${e}${edgeCause(e)}`)
+          ),
+          list(
+            'Decision diamonds added',
+            [...after.diamonds.keys()].filter((d) => !before.diamonds.has(d)).map((d) => `${d}${diamondCause(d, after.diamonds)}`)
+          ),
+          list(
+            'Decision diamonds removed',
+            [...before.diamonds.keys()].filter((d) => !after.diamonds.has(d)).map((d) => `${d}${diamondCause(d, before.diamonds)}`)
+          ),
+        ].join('');
+
+        // One diagram over both versions' tasks, coloured by what changed
+        const union = new Set([...before.tasks.keys(), ...after.tasks.keys()]);
+        const sections = scope.sections
+          .map((section) => ({
+            title: section.title,
+            tasks: [...taskById.values()].filter((t) => union.has(t.id) && section.stages.includes(t.stage)),
+          }))
+          .filter((section, _, all) => all.length === 1 || section.tasks.length > 0);
+        let mermaid = generateBeautifulMermaidDiagram(
+          buildWorkflowGraph(sections, [...taskById.values()], library, new Set()),
+          toDecisions
+        );
+        mermaid += DIFF_CLASS_DEFS.map((def) => `  ${def}\n`).join('');
+        mermaid += addedTasks.map((id) => `  class ${toNodeId(id)} addedStyle\n`).join('');
+        mermaid += removedTasks.map((id) => `  class ${toNodeId(id)} removedStyle\n`).join('');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `## Workflow Diff for ${describeScope(target)} - ${scope.workflowType}: v${from.version} → ${toLabel}
+${report || '\nNo structural changes.\n'}
+**Tasks:** ${before.metadata.task_count} → ${after.metadata.task_count}
+
+"← ID" names the changed decisions behind a change.
+
+**Diff Diagram** (🟩 added, 🟥 removed):
+
+\`\`\`mermaid
+${mermaid}
+\`\`\``,
+            },
+          ],
+        };
+      }
+
       case 'export_workflow': {
-        const { client_name, format } = args as { client_name: string; format?: string };
-        
+        const { client_name, site, product, stage, version, format } = args as {
+          client_name: string;
+          site?: string;
+          product?: string;
+          stage?: string;
+          version?: number;
+          format?: string;
+        };
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
+
         const exportFormat = format || 'png';
-        
+        if (exportFormat !== 'png' && exportFormat !== 'json') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Unknown export format "${exportFormat}". Valid formats are: png, json`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
         // Load saved workflow
         const clientWorkflows = await loadClientWorkflows();
-        const workflow = clientWorkflows[client_name];
+        const found = findSavedWorkflow(clientWorkflows[target.key], stage, version);
 
-        if (!workflow) {
+        if (!found) {
           return {
             content: [
               {
                 type: 'text',
-                text: `No saved workflow found for ${client_name}. Generate a workflow first using \`generate_workflow\`.`,
+                text: `No saved workflow found for ${describeScope(target)}${stage ? ` - ${stage}` : ''}${version !== undefined ? ` version ${version}` : ''}. Generate a workflow first using \`generate_workflow\`, or see \`list_workflow_versions\`.`,
               },
             ],
             isError: true,
           };
         }
 
+        const { workflow } = found;
+
         // Ensure client export directory exists
-        const clientDir = await ensureClientExportDir(client_name);
+        const clientDir = await ensureClientExportDir(target.key);
 
         // Create timestamped filename
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-        const mmdFilename = `workflow_${workflow.stage.replace(/\s+/g, '-')}_${timestamp}.mmd`;
-        const outputFilename = `workflow_${workflow.stage.replace(/\s+/g, '-')}_${timestamp}.${exportFormat}`;
+        const baseFilename = `workflow_${workflow.stage.replace(/\s+/g, '-')}_v${workflow.version}_${timestamp}`;
+        const mmdFilename = `${baseFilename}.mmd`;
+        const outputFilename = `${baseFilename}.${exportFormat}`;
         const mmdPath = path.join(clientDir, mmdFilename);
         const outputPath = path.join(clientDir, outputFilename);
 
+        // The resolved graph with everything it was built from, for other tools to consume
+        if (exportFormat === 'json') {
+          if (!workflow.graph) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Error: v${workflow.version} predates stored workflow graphs. Regenerate with \`generate_workflow\` and export the new version.`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          const { mermaid_code, ...stored } = workflow;
+          await fs.writeFile(outputPath, JSON.stringify({ client: target.key, ...stored }, null, 2), 'utf-8');
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `✅ Workflow graph exported!
+
+      **Client:** ${describeScope(target)}
+      **File:** ${outputFilename}
+      **Location:** ${outputPath}
+      **Stage:** ${workflow.stage}
+      **Version:** ${workflow.version}
+      **Library Version:** v${workflow.library_version || 1}
+      **Graph:** ${workflow.graph.nodes.length} nodes, ${workflow.graph.edges.length} edges, ${Object.keys(workflow.graph.relinks).length} re-linked
+
+      Includes the decision snapshot the version was generated from.`,
+              },
+            ],
+          };
+        }
+
         try {
           // Write Mermaid code to .mmd file
           await fs.writeFile(mmdPath, workflow.mermaid_code, 'utf-8');
 
-          // Use child_process exec for simpler command execution
-          const { exec } = await import('child_process');
-          const { promisify } = await import('util');
-          const execAsync = promisify(exec);
-          
-          // Build the command with proper quoting for Windows paths
-          const command = `npx mmdc -i "${mmdPath}" -o "${outputPath}" -b white -w 2400 -H 3000`;
-
-          // Execute the command
-          const { stdout, stderr } = await execAsync(command, {
-            cwd: path.join(__dirname, '..'),
-            maxBuffer: 10 * 1024 * 1024, // 10MB buffer for large outputs
-          });
+          // Rendering touches only this export's files and can take up to RENDER_TIMEOUT_MS, longer
+          // than other processes wait for the data lock, so the lock is released first
+          await releaseLock?.();
+          releaseLock = undefined;
 
-          // Get file size for reporting
-          const stats = await fs.stat(outputPath);
-          const fileSizeMB = (stats.size / (1024 * 1024)).toFixed(2);
+          const image = await renderMermaidDiagram(workflow.mermaid_code, 'png');
+          await fs.writeFile(outputPath, image);
+          const fileSizeMB = (image.length / (1024 * 1024)).toFixed(2);
 
           return {
             content: [
@@ -1974,13 +6788,13 @@ ${workflow.mermaid_code}
                 type: 'text',
                 text: `✅ Workflow exported successfully!
 
-      **Client:** ${client_name}
+      **Client:** ${describeScope(target)}
       **File:** ${outputFilename}
       **Location:** ${outputPath}
       **Stage:** ${workflow.stage}
       **Version:** ${workflow.version}
       **Format:** ${exportFormat.toUpperCase()}
-      **Resolution:** 2400x3000px
+      **Resolution:** ${RENDER_VIEWPORT.width}x${RENDER_VIEWPORT.height}px
       **File Size:** ${fileSizeMB} MB
 
       **Source File:** ${mmdFilename} (Mermaid source code)
@@ -2001,9 +6815,9 @@ ${workflow.mermaid_code}
       Output file: ${outputPath}
 
       **Troubleshooting:**
-      - Try running manually: npx mmdc -i "${mmdPath}" -o "${outputPath}"
+      - A "Mermaid line" error points at the diagram line in the input file that failed to render
       - Ensure @mermaid-js/mermaid-cli is installed: npm list @mermaid-js/mermaid-cli
-      - Check if Chromium was downloaded: npx puppeteer browsers install chrome`,
+      - Check if Chromium was downloaded: npx puppeteer browsers install chrome-headless-shell`,
               },
             ],
             isError: true,
@@ -2012,16 +6826,20 @@ ${workflow.mermaid_code}
       }
 
       case 'list_exports': {
-        const { client_name } = args as { client_name: string };
+        const { client_name, site, product } = args as { client_name: string; site?: string; product?: string };
+        const target = await resolveClientScope(client_name, site, product);
+        if (typeof target === 'string') {
+          return scopeError(target);
+        }
 
-        const clientDir = path.join(EXPORTS_DIR, client_name);
+        const clientDir = exportsPath(target.key);
 
         if (!existsSync(clientDir)) {
           return {
             content: [
               {
                 type: 'text',
-                text: `No exports found for ${client_name}. Export a workflow first using \`export_workflow\`.`,
+                text: `No exports found for ${describeScope(target)}. Export a workflow first using \`export_workflow\`.`,
               },
             ],
           };
@@ -2035,7 +6853,7 @@ ${workflow.mermaid_code}
             content: [
               {
                 type: 'text',
-                text: `No PNG exports found for ${client_name}.`,
+                text: `No PNG exports found for ${describeScope(target)}.`,
               },
             ],
           };
@@ -2063,7 +6881,7 @@ ${workflow.mermaid_code}
           content: [
             {
               type: 'text',
-              text: `## Exported Workflows for ${client_name}
+              text: `## Exported Workflows for ${describeScope(target)}
 
 **Total Exports:** ${pngFiles.length}
 **Location:** ${clientDir}
@@ -2074,6 +6892,40 @@ ${formatted}`,
         };
       }
 
+      case 'lint_library': {
+        const tasksRaw = await repository.source('tasks');
+        const decisionsRaw = await repository.source('decisions');
+
+        const issues = lintLibrary(tasksRaw, decisionsRaw, await loadStages());
+
+        if (issues.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: '✅ Library lint passed - tasks.json and decisions.json are consistent.',
+              },
+            ],
+          };
+        }
+
+        const formatted = issues
+          .map(
+            (issue) =>
+              `❌ ${issue.file}${issue.line ? `:${issue.line}` : ''}${issue.id ? ` ${issue.id}` : ''} - ${issue.message}${issue.context ? `\n     ${issue.context}` : ''}`
+          )
+          .join('\n');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `## Library lint: ${issues.length} issue(s)\n\n${formatted}`,
+            },
+          ],
+        };
+      }
+
       default:
         return {
           content: [
@@ -2095,14 +6947,48 @@ ${formatted}`,
       ],
       isError: true,
     };
+  } finally {
+    await releaseLock?.();
   }
 });
 
 // Start server
 async function main() {
+  const initial = resolveWorkspace(readFlag('workspace') || process.env.MES_WORKSPACE || DEFAULT_WORKSPACE.name);
+  if (typeof initial === 'string') {
+    throw new Error(initial);
+  }
+  if (!existsSync(initial.dataDir)) {
+    throw new Error(`Workspace "${initial.name}" not found: ${initial.dataDir} does not exist`);
+  }
+
+  if (process.argv.includes('--migrate-to-sqlite')) {
+    workspace = initial;
+    const releaseLock = await acquireDataLock();
+    try {
+      console.log(await migrateJsonToSqlite(initial.dataDir));
+    } finally {
+      await releaseLock();
+    }
+    return;
+  }
+
+  await activateWorkspace(initial);
+
   const transport = new StdioServerTransport();
+  // An open render browser would otherwise keep the process alive after the client disconnects
+  process.stdin.on('end', () => {
+    void closeRenderBrowser();
+  });
   await server.connect(transport);
-  console.error('MES Workflow MCP server v3.0.0 running on stdio');
+  console.error(
+    `MES Workflow MCP server v3.0.0 running on stdio (workspace: ${workspace.name}, data: ${workspace.dataDir}, storage: ${repository.name})`
+  );
+
+  // Tools that read a corrupted store fail with the same message until it is restored
+  for (const problem of await repository.check()) {
+    console.error(`⚠️ ${problem}`);
+  }
 }
 
 main().catch((error) => {
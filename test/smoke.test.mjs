@@ -0,0 +1,167 @@
+// Smoke tests: each starts the server from src/ on a scratch copy of data/ and talks to it over stdio
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const tsx = path.join(root, 'node_modules', '.bin', 'tsx');
+const entry = path.join(root, 'src', 'index.ts');
+const TOOL_TIMEOUT_MS = 120000;
+
+// Scratch workspace with the shipped library and example clients, without locks, backups or SQLite files
+async function createWorkspace() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mes-smoke-'));
+  const dataDir = path.join(dir, 'data');
+  const exportsDir = path.join(dir, 'exports');
+  await fs.mkdir(dataDir);
+  await fs.mkdir(exportsDir);
+  for (const file of await fs.readdir(path.join(root, 'data'))) {
+    if (file.endsWith('.json') || file.endsWith('.jsonl')) {
+      await fs.copyFile(path.join(root, 'data', file), path.join(dataDir, file));
+    }
+  }
+  return { dir, dataDir, exportsDir, args: ['--data-dir', dataDir, '--exports-dir', exportsDir, '--workspaces-dir', path.join(dir, 'workspaces')] };
+}
+
+async function startServer(workspace, extraArgs = []) {
+  const transport = new StdioClientTransport({
+    command: tsx,
+    args: [entry, ...workspace.args, ...extraArgs],
+    cwd: root,
+    stderr: 'ignore',
+  });
+  const client = new Client({ name: 'smoke-test', version: '1.0.0' }, { capabilities: {} });
+  await client.connect(transport);
+
+  // Tool result text, failing the test when the tool reports an error
+  const call = async (name, args) => {
+    const result = await client.callTool({ name, arguments: args }, undefined, { timeout: TOOL_TIMEOUT_MS });
+    const text = result.content.map((c) => c.text).join('\n');
+    assert.ok(!result.isError, `${name} failed: ${text}`);
+    return text;
+  };
+  return { call, close: () => client.close() };
+}
+
+// Practice decisions every client can answer without conditions, with their first outcome
+async function answerableDecisions(workspace, count) {
+  const decisions = JSON.parse(await fs.readFile(path.join(workspace.dataDir, 'decisions.json'), 'utf-8'));
+  return decisions
+    .filter((d) => d.category === 'Practice' && !d.applies_when)
+    .slice(0, count)
+    .map((d) => ({ id: d.id, outcome: d.outcomes[0] }));
+}
+
+// Rendering needs the browser puppeteer installs; without one the export can only report the launch error
+async function browserUnavailable() {
+  try {
+    const { default: puppeteer } = await import('puppeteer');
+    const browser = await puppeteer.launch({ headless: 'shell' });
+    await browser.close();
+    return false;
+  } catch (error) {
+    return `no headless browser (${error instanceof Error ? error.message.split('\n')[0] : String(error)}); run \`npx puppeteer browsers install chrome-headless-shell\``;
+  }
+}
+
+test('export_workflow renders the saved workflow to a PNG', { timeout: 4 * TOOL_TIMEOUT_MS }, async (t) => {
+  const skip = await browserUnavailable();
+  if (skip) {
+    t.skip(skip);
+    return;
+  }
+
+  const workspace = await createWorkspace();
+  const server = await startServer(workspace);
+  try {
+    await server.call('generate_workflow', { client_name: 'Demo Pharma', stage: 'Complete-Dispensing' });
+    const text = await server.call('export_workflow', { client_name: 'Demo Pharma', stage: 'Complete-Dispensing' });
+
+    const location = text.match(/\*\*Location:\*\* (.+)/)?.[1].trim();
+    assert.ok(location?.endsWith('.png'), `no PNG location in: ${text}`);
+    const image = await fs.readFile(location);
+    assert.deepEqual([...image.subarray(0, 8)], [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    assert.ok(existsSync(location.replace(/\.png$/, '.mmd')), 'the Mermaid source is saved next to the PNG');
+
+    // The data lock was released for rendering; later calls still get it
+    await server.call('list_exports', { client_name: 'Demo Pharma' });
+  } finally {
+    await server.close();
+    await fs.rm(workspace.dir, { recursive: true, force: true });
+  }
+});
+
+test('servers sharing a data folder take over a stale lock and keep every write', { timeout: 4 * TOOL_TIMEOUT_MS }, async () => {
+  const workspace = await createWorkspace();
+  // A lock left by a process that has exited
+  const { pid: deadPid } = spawnSync(process.execPath, ['-e', '']);
+  await fs.writeFile(path.join(workspace.dataDir, '.lock'), String(deadPid), 'utf-8');
+
+  const decisions = await answerableDecisions(workspace, 15);
+  const servers = await Promise.all([1, 2, 3].map(() => startServer(workspace)));
+  try {
+    await Promise.all(
+      servers.map(async (server, index) => {
+        for (const decision of decisions.filter((_, i) => i % servers.length === index)) {
+          await server.call('save_client_decision', {
+            client_name: 'Smoke Pharma',
+            decision_id: decision.id,
+            selected_outcome: decision.outcome,
+            author: `tester-${index}`,
+          });
+        }
+      })
+    );
+  } finally {
+    await Promise.all(servers.map((server) => server.close()));
+  }
+
+  try {
+    const saved = JSON.parse(await fs.readFile(path.join(workspace.dataDir, 'client_decisions.json'), 'utf-8'));
+    assert.deepEqual(Object.keys(saved['Smoke Pharma']).sort(), decisions.map((d) => d.id).sort());
+    const leftovers = (await fs.readdir(workspace.dataDir)).filter((file) => file.startsWith('.lock'));
+    assert.deepEqual(leftovers, []);
+  } finally {
+    await fs.rm(workspace.dir, { recursive: true, force: true });
+  }
+});
+
+test('a failed SQLite migration leaves no partial database, and a retry can be served', { timeout: 4 * TOOL_TIMEOUT_MS }, async () => {
+  const workspace = await createWorkspace();
+  const sqliteFile = path.join(workspace.dataDir, 'mes.sqlite');
+  const migrate = () => spawnSync(tsx, [entry, '--migrate-to-sqlite', ...workspace.args], { cwd: root, encoding: 'utf-8', timeout: TOOL_TIMEOUT_MS });
+
+  try {
+    // Two audit entries with the same sequence stop the migration after the data stores were copied
+    const auditLog = path.join(workspace.dataDir, 'decision_audit.jsonl');
+    await fs.writeFile(auditLog, '{"sequence":1}\n{"sequence":1}\n', 'utf-8');
+    const failed = migrate();
+    assert.notEqual(failed.status, 0);
+    assert.match(failed.stderr, /Migration stopped/);
+    for (const suffix of ['', '-wal', '-shm']) {
+      assert.ok(!existsSync(`${sqliteFile}${suffix}`), `mes.sqlite${suffix} was left behind`);
+    }
+
+    await fs.rm(auditLog);
+    const retried = migrate();
+    assert.equal(retried.status, 0, retried.stderr);
+    assert.ok(existsSync(sqliteFile));
+
+    const server = await startServer(workspace, ['--storage', 'sqlite']);
+    try {
+      const text = await server.call('get_client_decisions', { client_name: 'Demo Pharma' });
+      assert.match(text, /Demo Pharma/);
+    } finally {
+      await server.close();
+    }
+  } finally {
+    await fs.rm(workspace.dir, { recursive: true, force: true });
+  }
+});